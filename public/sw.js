@@ -0,0 +1,115 @@
+// ============================================================================
+// eurhuf.info service worker
+// ============================================================================
+// - App shell (built files, flags, icons): precached on install, cache-first.
+// - Page loads: network-first, falling back to the cached shell when offline.
+// - Rate GET requests: stale-while-revalidate. Copies answered from cache
+//   carry an `x-sw-fetched-at` header so the app can tell how old they are.
+//   MNB is a SOAP POST and cannot be cached here; it keeps its own fallback.
+// - Web fonts: cache-first once seen.
+// /sw-precache.js is generated at build time (see vite.config.ts) and defines
+// `self.__PRECACHE = { version, urls, rateEndpoints }`.
+
+importScripts('/sw-precache.js');
+
+const { version, urls, rateEndpoints } = self.__PRECACHE;
+// Proxied endpoints are same-origin paths.
+const rateUrls = rateEndpoints.map((endpoint) => new URL(endpoint, self.location.origin).href);
+
+const CONFIG = {
+  SHELL_CACHE: `eurhuf-shell-${version}`,
+  RATES_CACHE: 'eurhuf-rates',
+  FONTS_CACHE: 'eurhuf-fonts',
+  SHELL_URL: '/index.html',
+  FETCHED_AT_HEADER: 'x-sw-fetched-at',
+  FONT_HOSTS: ['fonts.googleapis.com', 'fonts.gstatic.com'],
+  // Chart ranges create a new history URL every day; keep the newest ones.
+  MAX_RATE_ENTRIES: 60,
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CONFIG.SHELL_CACHE)
+      .then((cache) => cache.addAll(urls))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  const keep = [CONFIG.SHELL_CACHE, CONFIG.RATES_CACHE, CONFIG.FONTS_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names.filter((name) => !keep.includes(name)).map((name) => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+const stampFetchedAt = async (response) => {
+  const headers = new Headers(response.headers);
+  headers.set(CONFIG.FETCHED_AT_HEADER, String(Date.now()));
+  return new Response(await response.blob(), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+};
+
+const trimCache = async (cache, maxEntries) => {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+};
+
+const staleWhileRevalidate = async (event) => {
+  const cache = await caches.open(CONFIG.RATES_CACHE);
+  const cached = await cache.match(event.request);
+  const network = fetch(event.request).then(async (response) => {
+    if (response.ok) {
+      await cache.delete(event.request);
+      await cache.put(event.request, await stampFetchedAt(response.clone()));
+      await trimCache(cache, CONFIG.MAX_RATE_ENTRIES);
+    }
+    return response;
+  });
+  if (!cached) return network;
+  event.waitUntil(network.catch(() => undefined));
+  return cached;
+};
+
+const networkFirstPage = async (request) => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const shell = await caches.match(CONFIG.SHELL_URL);
+    if (shell) return shell;
+    throw error;
+  }
+};
+
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (cacheName && (response.ok || response.type === 'opaque')) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(networkFirstPage(request));
+  } else if (rateUrls.some((endpoint) => request.url.startsWith(endpoint))) {
+    event.respondWith(staleWhileRevalidate(event));
+  } else if (CONFIG.FONT_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request, CONFIG.FONTS_CACHE));
+  } else if (url.origin === self.location.origin && urls.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
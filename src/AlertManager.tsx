@@ -0,0 +1,283 @@
+import { useState, useRef } from 'react';
+import { X, Pause, Play, Pencil, Trash2, BellRing } from 'lucide-react';
+import Dialog from './Dialog';
+import { Currency } from './currencies';
+import { ExchangeRates, crossRate } from './rateProviders';
+import {
+  AlertCondition,
+  CONDITION_LABELS,
+  RateAlert,
+  describeAlert,
+  requestNotificationPermission,
+} from './rateAlerts';
+import { getLocaleNumberAmbiguity, parseLocaleNumber } from './localeNumber';
+import { formatInputNumber } from './money';
+import { createId } from './ids';
+
+interface AlertManagerProps {
+  alerts: RateAlert[];
+  onChange: (alerts: RateAlert[]) => void;
+  currencies: Currency[];
+  base: Currency;
+  rates: ExchangeRates | null;
+  isDarkMode: boolean;
+  onClose: () => void;
+}
+
+interface AlertDraft {
+  id: string | null;
+  currency: Currency;
+  condition: AlertCondition;
+  threshold: string;
+}
+
+const formatTime = (ts: number) =>
+  new Intl.DateTimeFormat('hu-HU', { dateStyle: 'short', timeStyle: 'short' }).format(ts);
+
+export default function AlertManager({
+  alerts,
+  onChange,
+  currencies,
+  base,
+  rates,
+  isDarkMode,
+  onClose,
+}: AlertManagerProps) {
+  const emptyDraft = (): AlertDraft => ({
+    id: null,
+    currency: currencies[0] ?? 'EUR',
+    condition: 'above',
+    threshold: '',
+  });
+  const [draft, setDraft] = useState<AlertDraft>(emptyDraft);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [permission, setPermission] = useState(
+    () => (typeof Notification === 'undefined' ? 'denied' : Notification.permission)
+  );
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  const currentRate = rates ? crossRate(rates.rates, draft.currency, base) : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const threshold = parseLocaleNumber(draft.threshold);
+    if (!Number.isFinite(threshold) || threshold <= 0) {
+      setFormError(getLocaleNumberAmbiguity(draft.threshold) ?? 'Adj meg egy pozitív küszöbértéket.');
+      return;
+    }
+    setFormError(null);
+
+    if (draft.id) {
+      onChange(alerts.map((alert) => (alert.id === draft.id
+        ? { ...alert, currency: draft.currency, base, condition: draft.condition, threshold, isTriggered: false }
+        : alert)));
+    } else {
+      onChange([
+        ...alerts,
+        {
+          id: createId(),
+          currency: draft.currency,
+          base,
+          condition: draft.condition,
+          threshold,
+          paused: false,
+          createdAt: Date.now(),
+          isTriggered: false,
+          history: [],
+        },
+      ]);
+    }
+    setDraft(emptyDraft());
+    setPermission(await requestNotificationPermission());
+  };
+
+  const startEdit = (alert: RateAlert) => {
+    setDraft({
+      id: alert.id,
+      currency: alert.currency,
+      condition: alert.condition,
+      threshold: formatInputNumber(alert.threshold),
+    });
+    setFormError(null);
+  };
+
+  const togglePaused = (id: string) => {
+    onChange(alerts.map((alert) => (alert.id === id
+      ? { ...alert, paused: !alert.paused, isTriggered: false }
+      : alert)));
+  };
+
+  const removeAlert = (id: string) => {
+    onChange(alerts.filter((alert) => alert.id !== id));
+    if (draft.id === id) setDraft(emptyDraft());
+  };
+
+  const fieldClass = `py-2 px-3 rounded-xl border text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent ${
+    isDarkMode ? 'bg-zinc-800/70 border-zinc-700 text-zinc-100' : 'bg-stone-50 border-stone-300 text-stone-800'
+  }`;
+  const iconButtonClass = `p-2 rounded-lg transition-colors ${
+    isDarkMode ? 'text-zinc-400 hover:text-cyan-400 hover:bg-zinc-800' : 'text-stone-500 hover:text-cyan-600 hover:bg-stone-100'
+  }`;
+  const mutedText = isDarkMode ? 'text-zinc-400' : 'text-stone-500';
+
+  return (
+    <Dialog
+      labelledBy="alert-manager-title"
+      initialFocusRef={closeButtonRef}
+      onClose={onClose}
+      className={`w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-3xl shadow-2xl p-6 border ${
+        isDarkMode ? 'bg-zinc-900 border-zinc-800 text-zinc-100' : 'bg-white border-stone-200 text-stone-800'
+      }`}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h2 id="alert-manager-title" className="text-2xl font-bold">Árfolyam-riasztások</h2>
+        <button
+          ref={closeButtonRef}
+          type="button"
+          onClick={onClose}
+          aria-label="Riasztások bezárása"
+          className={`p-2 rounded-xl border transition-colors ${
+            isDarkMode
+              ? 'bg-zinc-800 border-zinc-700 hover:bg-zinc-700 text-zinc-300'
+              : 'bg-stone-100 border-stone-300 hover:bg-stone-200 text-stone-600'
+          }`}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-3 mb-6">
+        <div className="flex gap-2">
+          <label htmlFor="alert-currency" className="sr-only">Deviza</label>
+          <select
+            id="alert-currency"
+            value={draft.currency}
+            onChange={(e) => setDraft({ ...draft, currency: e.target.value })}
+            className={`${fieldClass} w-28`}
+          >
+            {currencies.map((code) => (
+              <option key={code} value={code}>{code}/{base}</option>
+            ))}
+          </select>
+          <label htmlFor="alert-condition" className="sr-only">Feltétel</label>
+          <select
+            id="alert-condition"
+            value={draft.condition}
+            onChange={(e) => setDraft({ ...draft, condition: e.target.value as AlertCondition })}
+            className={`${fieldClass} flex-1 min-w-0`}
+          >
+            {(Object.keys(CONDITION_LABELS) as AlertCondition[]).map((condition) => (
+              <option key={condition} value={condition}>{CONDITION_LABELS[condition]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <label htmlFor="alert-threshold" className="sr-only">Küszöbérték</label>
+          <input
+            id="alert-threshold"
+            type="text"
+            inputMode="decimal"
+            value={draft.threshold}
+            onChange={(e) => setDraft({ ...draft, threshold: e.target.value })}
+            placeholder={draft.condition === 'dailyMove' ? 'pl. 1 (%)' : currentRate ? `most ${currentRate.toFixed(2)}` : 'Küszöb'}
+            aria-invalid={Boolean(formError)}
+            aria-describedby={formError ? 'alert-form-error' : undefined}
+            className={`${fieldClass} flex-1 min-w-0`}
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 rounded-xl text-sm font-medium bg-cyan-500 text-white hover:bg-cyan-600 transition-colors"
+          >
+            {draft.id ? 'Mentés' : 'Hozzáadás'}
+          </button>
+          {draft.id && (
+            <button
+              type="button"
+              onClick={() => setDraft(emptyDraft())}
+              className={`px-3 py-2 rounded-xl text-sm border ${
+                isDarkMode ? 'border-zinc-700 text-zinc-300' : 'border-stone-300 text-stone-600'
+              }`}
+            >
+              Mégse
+            </button>
+          )}
+        </div>
+        {formError && (
+          <p id="alert-form-error" role="alert" className={`text-xs ${isDarkMode ? 'text-rose-400' : 'text-rose-600'}`}>
+            {formError}
+          </p>
+        )}
+        {permission === 'denied' && (
+          <p className={`text-xs ${mutedText}`}>
+            A böngésző értesítései le vannak tiltva; a riasztások csak az oldalon jelennek meg.
+          </p>
+        )}
+      </form>
+
+      {alerts.length === 0 ? (
+        <p className={`text-sm text-center ${mutedText}`}>Még nincs riasztás.</p>
+      ) : (
+        <ul className="space-y-2">
+          {alerts.map((alert) => (
+            <li
+              key={alert.id}
+              className={`p-3 rounded-2xl border ${
+                isDarkMode ? 'bg-zinc-800/50 border-zinc-700/50' : 'bg-stone-50 border-stone-200'
+              } ${alert.paused ? 'opacity-60' : ''}`}
+            >
+              <div className="flex items-center gap-2">
+                {alert.isTriggered && <BellRing className="w-4 h-4 text-amber-500 flex-shrink-0" aria-label="Aktív" />}
+                <button
+                  type="button"
+                  onClick={() => setExpandedId(expandedId === alert.id ? null : alert.id)}
+                  aria-expanded={expandedId === alert.id}
+                  className="flex-1 min-w-0 text-left text-sm"
+                >
+                  {describeAlert(alert)}
+                  <span className={`block text-xs ${mutedText}`}>
+                    {alert.paused ? 'Szüneteltetve' : `${alert.history.length} jelzés`}
+                  </span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => togglePaused(alert.id)}
+                  aria-label={alert.paused ? 'Riasztás folytatása' : 'Riasztás szüneteltetése'}
+                  className={iconButtonClass}
+                >
+                  {alert.paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => startEdit(alert)}
+                  aria-label="Riasztás szerkesztése"
+                  className={iconButtonClass}
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removeAlert(alert.id)}
+                  aria-label="Riasztás törlése"
+                  className={iconButtonClass}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              {expandedId === alert.id && (
+                <ol className={`mt-2 space-y-1 text-xs ${mutedText}`}>
+                  {alert.history.length === 0 && <li>Még nem jelzett.</li>}
+                  {alert.history.map((firing) => (
+                    <li key={firing.ts}>
+                      {formatTime(firing.ts)} – {firing.message}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Dialog>
+  );
+}
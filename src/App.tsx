@@ -1,5 +1,5 @@
-﻿import { useState, useEffect, useCallback } from 'react';
-import { Euro, DollarSign, PoundSterling, Sun, Moon, AlertCircle, Gamepad2, ArrowLeft } from 'lucide-react';
+﻿import { useState, useEffect, useLayoutEffect, useCallback, useRef } from 'react';
+import { Sun, Moon, AlertCircle, Gamepad2, ArrowLeft, AlertTriangle, Plus, Bell, BellRing, X, WifiOff, RefreshCw, SlidersHorizontal, CreditCard, History, Receipt, ShoppingBasket, Wallet, ScrollText } from 'lucide-react';
 import SnakeGame from './SnakeGame';
 import {
   DndContext,
@@ -15,9 +15,53 @@ import {
   SortableContext,
   sortableKeyboardCoordinates,
   verticalListSortingStrategy,
-  useSortable,
 } from '@dnd-kit/sortable';
-import { CSS } from '@dnd-kit/utilities';
+import {
+  ExchangeRates,
+  RATE_PROVIDERS,
+  fetchRatesWithFailover,
+  getProviderChain,
+  getProviderName,
+  loadCachedRates,
+  ratesFromQuotes,
+} from './rateProviders';
+import { DAY_MS, RateSnapshot, SPARKLINE_DAYS, loadRateHistory, recordRateSnapshot } from './rateHistory';
+import { Currency, CURRENCIES, getCurrencyInfo, isCurrencyCode, loadCurrencyOrder } from './currencies';
+import SortableCurrencyCard from './SortableCurrencyCard';
+import { ReferenceRates, loadReferenceRates, loadReferenceTime, saveReferenceTime } from './referenceRates';
+import { FiredAlert, RateAlert, evaluateAlerts, loadAlerts, saveAlerts, showAlertNotification } from './rateAlerts';
+import AlertManager from './AlertManager';
+import RateChart from './RateChart';
+import { formatRelativeTime } from './relativeTime';
+import { RefreshScheduler, RefreshState, createRefreshScheduler } from './refreshScheduler';
+import { TabMessage, TabSync, createTabSync } from './tabSync';
+import {
+  ConversionProfile,
+  loadProfiles,
+  loadSelectedProfileId,
+  saveProfiles,
+  saveSelectedProfileId,
+} from './conversionProfiles';
+import ProfileManager from './ProfileManager';
+import ProviderComparison from './ProviderComparison';
+import DccChecker from './DccChecker';
+import InvoiceCalculator from './InvoiceCalculator';
+import BasketPlanner from './BasketPlanner';
+import ExpenseTracker from './ExpenseTracker';
+import ConversionLog from './ConversionLog';
+import {
+  ConversionEntry,
+  HISTORY_DEBOUNCE_MS,
+  addConversionEntry,
+  createConversionEntry,
+  loadConversionHistory,
+  saveConversionHistory,
+} from './conversionHistory';
+import { evaluateAmountExpression } from './amountExpression';
+import { formatNumberInput } from './localeNumber';
+import { ZERO, addDecimal, compareDecimal, decimalToString, formatDecimal, parseDecimal } from './money';
+import { ROUNDING_MODES, RoundingMode, loadRoundingMode, saveRoundingMode } from './rounding';
+import { RatesOnDate, loadRatesOnDate, toLocalIsoDate } from './ratesOnDate';
 
 declare global {
   interface Window {
@@ -29,39 +73,16 @@ declare global {
   }
 }
 
-interface ExchangeRates {
-  rates: {
-    EUR: number;
-    USD: number;
-    GBP: number;
-    CHF: number;
-  };
-}
-
-type Currency = 'HUF' | 'EUR' | 'USD' | 'GBP' | 'CHF';
-
 const ANALYTICS_ID = 'G-HFNYDL6KN3';
 const CLARITY_ID = 'vd9j8te53s';
 const ANALYTICS_SCRIPT_SRC = `https://www.googletagmanager.com/gtag/js?id=${ANALYTICS_ID}`;
 
-const FLAG_URLS = {
-  HUF: '/flags/hu.svg',
-  EUR: '/flags/eu.svg',
-  USD: '/flags/us.svg',
-  GBP: '/flags/gb.svg',
-  CHF: '/flags/ch.svg',
-} as const;
-
-interface SortableCurrencyCardProps {
-  currency: Currency;
-  bgColor: string;
-  darkBgColor: string;
-  icon: React.ReactNode;
-  isDarkMode: boolean;
-  rates: ExchangeRates | null;
-  amount: string;
-  selectedCurrency: Currency;
-}
+// `<input type="datetime-local">` wants local time without a zone.
+const toDateTimeLocal = (ts: number) => {
+  const date = new Date(ts);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
 
 const loadAnalytics = () => {
   const gaDebug = new URLSearchParams(window.location.search).get('ga_debug') === '1';
@@ -142,124 +163,16 @@ const setClarityConsent = (value: 'granted' | 'denied') => {
   });
 };
 
-function SortableCurrencyCard(props: SortableCurrencyCardProps) {
-  const {
-    attributes,
-    listeners,
-    setNodeRef,
-    transform,
-    transition,
-    isDragging,
-  } = useSortable({ id: props.currency });
-
-  const baseTransform = CSS.Transform.toString(transform);
-  const dragTransform = isDragging ? ' scale(1.05) rotate(2deg)' : '';
-  const combinedTransform = `${baseTransform}${dragTransform}`.trim();
-
-  const style = {
-    transform: combinedTransform || undefined,
-    transition,
-    zIndex: isDragging ? 50 : 1,
-  };
-
-  const formatNumber = (value: number): string => {
-    return new Intl.NumberFormat('hu-HU', {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(value);
-  };
-
-  const getCurrencySymbol = (currency: Currency): string => {
-    switch (currency) {
-      case 'EUR': return '€';
-      case 'USD': return '$';
-      case 'GBP': return '£';
-      case 'CHF': return 'CHF';
-      default: return 'Ft';
-    }
-  };
-
-  const getFlagForSymbol = (symbol: string): string => {
-    switch (symbol) {
-      case '€': return FLAG_URLS.EUR;
-      case '$': return FLAG_URLS.USD;
-      case '£': return FLAG_URLS.GBP;
-      case 'CHF': return FLAG_URLS.CHF;
-      case 'Ft': return FLAG_URLS.HUF;
-      default: return FLAG_URLS.HUF;
-    }
-  };
-
-  const calculateRate = (from: Currency, to: Currency, value: number): number => {
-    if (!props.rates || !value) return 0;
-    if (from === 'HUF' && to !== 'HUF') return value * props.rates.rates[to];
-    if (from !== 'HUF' && to === 'HUF') return value / props.rates.rates[from];
-    if (from !== 'HUF' && to !== 'HUF') return (value / props.rates.rates[from]) * props.rates.rates[to];
-    return value;
-  };
-
-  if (!props.rates || props.currency === 'HUF') return null;
-
-  const rate = formatNumber(1 / props.rates.rates[props.currency]);
-  const isConvertingToHUF = props.selectedCurrency === props.currency;
-  const convertedAmount = isConvertingToHUF
-    ? `${formatNumber(calculateRate(props.currency, 'HUF', parseFloat(props.amount)))} Ft`
-    : `${formatNumber(calculateRate(props.selectedCurrency, props.currency, parseFloat(props.amount)))} ${getCurrencySymbol(props.currency)}`;
-
-  const displaySymbol = isConvertingToHUF ? 'Ft' : getCurrencySymbol(props.currency);
-  const flagUrl = getFlagForSymbol(displaySymbol);
-
-  return (
-    <div
-      ref={setNodeRef}
-      style={style}
-      role="listitem"
-      className={`${props.isDarkMode ? props.darkBgColor : props.bgColor} p-6 rounded-2xl transition-all duration-200
-        border ${props.isDarkMode ? 'border-zinc-700/50 hover:border-zinc-600' : 'border-stone-200 hover:border-stone-300'}
-        hover:shadow-2xl animate-slide-up relative group cursor-grab active:cursor-grabbing
-        ${isDragging ? 'shadow-2xl ring-2 ring-cyan-500' : 'hover:scale-[1.02]'}`}
-      {...attributes}
-      {...listeners}
-    >
-      <div className="flex items-center justify-between mb-4">
-        <div className="flex items-center gap-3">
-          <div className="animate-float">
-            {props.icon}
-          </div>
-        </div>
-        <img
-          src={flagUrl}
-          alt={`${displaySymbol} flag`}
-          style={{
-            width: '56px',
-            height: '36px',
-            objectFit: 'cover'
-          }}
-          className="shadow-md rounded-md border border-white/20"
-        />
-      </div>
-      <div className="flex justify-between items-end">
-        <span className={`text-4xl font-bold ${props.isDarkMode ? 'text-zinc-100' : 'text-stone-800'}`}>
-          {rate}
-        </span>
-        <div className={`text-right ${props.isDarkMode ? 'text-zinc-400' : 'text-stone-600'}`}>
-          {props.amount && (
-            <div className="text-lg font-medium">
-              {convertedAmount}
-            </div>
-          )}
-        </div>
-      </div>
-    </div>
-  );
-}
-
 function App() {
   const [amount, setAmount] = useState<string>('1');
-  const [rates, setRates] = useState<ExchangeRates | null>(() => {
-    const savedRates = localStorage.getItem('cachedRates');
-    return savedRates ? JSON.parse(savedRates) : null;
+  const amountInputRef = useRef<HTMLInputElement>(null);
+  // Where the caret goes once the reformatted amount is rendered.
+  const pendingCursorRef = useRef<number | null>(null);
+  const [baseCurrency, setBaseCurrency] = useState<Currency>(() => {
+    const savedBase = localStorage.getItem('baseCurrency');
+    return isCurrencyCode(savedBase) ? savedBase : 'HUF';
   });
+  const [rates, setRates] = useState<ExchangeRates | null>(() => loadCachedRates(baseCurrency));
   const [selectedCurrency, setSelectedCurrency] = useState<Currency>('EUR');
   const [isDarkMode, setIsDarkMode] = useState(() => {
     const savedTheme = localStorage.getItem('theme');
@@ -267,49 +180,131 @@ function App() {
   });
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [currencyOrder, setCurrencyOrder] = useState<Currency[]>(() => {
-    const savedOrder = localStorage.getItem('currencyOrder');
-    return savedOrder ? JSON.parse(savedOrder) : ['EUR', 'USD', 'GBP', 'CHF'];
+  const [isShowingCached, setIsShowingCached] = useState(false);
+  const [isOffline, setIsOffline] = useState(() => !navigator.onLine);
+  const [refreshState, setRefreshState] = useState<RefreshState>({
+    isRefreshing: false,
+    nextRefreshAt: null,
+    consecutiveFailures: 0,
   });
+  const schedulerRef = useRef<RefreshScheduler | null>(null);
+  const [isLeader, setIsLeader] = useState(false);
+  const tabSyncRef = useRef<TabSync | null>(null);
+  const isLeaderRef = useRef(false);
+  const ratesRef = useRef(rates);
+  const baseCurrencyRef = useRef(baseCurrency);
+  const refreshStateRef = useRef(refreshState);
+  // The amount field as typed, logged as the label of its value.
+  const typedAmountRef = useRef(amount);
+  // The previous leader's next refresh, kept when this tab takes over.
+  const inheritedRefreshAtRef = useRef<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [currencyOrder, setCurrencyOrder] = useState<Currency[]>(() => loadCurrencyOrder());
   const [isGameMode, setIsGameMode] = useState(false);
+  const [rateHistory, setRateHistory] = useState<RateSnapshot[]>([]);
+  const [chartCurrency, setChartCurrency] = useState<Currency | null>(null);
+  const [referenceTime, setReferenceTime] = useState<number | null>(() => loadReferenceTime());
+  const [referenceRates, setReferenceRates] = useState<ReferenceRates | null>(null);
+  const [alerts, setAlerts] = useState<RateAlert[]>(() => loadAlerts());
+  const [firedAlerts, setFiredAlerts] = useState<FiredAlert[]>([]);
+  const [isAlertManagerOpen, setIsAlertManagerOpen] = useState(false);
+  const alertsRef = useRef(alerts);
+  const [preferredProvider, setPreferredProvider] = useState<string>(
+    () => localStorage.getItem('rateProvider') ?? RATE_PROVIDERS[0].id
+  );
+  const [profiles, setProfiles] = useState<ConversionProfile[]>(() => loadProfiles());
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(() => loadSelectedProfileId());
+  const [isProfileManagerOpen, setIsProfileManagerOpen] = useState(false);
+  const [roundingMode, setRoundingMode] = useState<RoundingMode>(() => loadRoundingMode());
+  // A past day to convert at, or null for live rates. Not persisted: a fresh
+  // visit should never silently show old rates.
+  const [historicalDate, setHistoricalDate] = useState<string | null>(null);
+  const [ratesOnDate, setRatesOnDate] = useState<RatesOnDate | null>(null);
+  const [ratesOnDateError, setRatesOnDateError] = useState<string | null>(null);
+  const [isDccCheckerOpen, setIsDccCheckerOpen] = useState(false);
+  const [isInvoiceCalculatorOpen, setIsInvoiceCalculatorOpen] = useState(false);
+  const [isBasketPlannerOpen, setIsBasketPlannerOpen] = useState(false);
+  const [isExpenseTrackerOpen, setIsExpenseTrackerOpen] = useState(false);
+  const [conversionHistory, setConversionHistory] = useState<ConversionEntry[]>(() => loadConversionHistory());
+  const [isConversionLogOpen, setIsConversionLogOpen] = useState(false);
+  // Last theme/order/list seen from another tab, so applying it isn't echoed back.
+  const syncedThemeRef = useRef(isDarkMode);
+  const syncedOrderRef = useRef(JSON.stringify(currencyOrder));
+  const syncedHistoryRef = useRef(JSON.stringify(conversionHistory));
+  const syncedAlertsRef = useRef(JSON.stringify(alerts));
+  const syncedProfilesRef = useRef(JSON.stringify(profiles));
 
   const toggleGameMode = () => {
     setIsGameMode(prev => !prev);
   };
 
   const sensors = useSensors(
-    useSensor(PointerSensor),
+    // A small drag threshold lets a tap on a card open its chart.
+    useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
     useSensor(KeyboardSensor, {
       coordinateGetter: sortableKeyboardCoordinates,
     })
   );
 
-  const fetchRates = useCallback(async () => {
+  const refreshHistory = useCallback(async () => {
+    try {
+      setRateHistory(await loadRateHistory(Date.now() - SPARKLINE_DAYS * DAY_MS));
+    } catch (historyError) {
+      console.warn('Árfolyam-előzmények nem elérhetők:', historyError);
+    }
+  }, []);
+
+  const storeSnapshot = useCallback(async (snapshot: ExchangeRates) => {
+    try {
+      await recordRateSnapshot(snapshot);
+    } catch (historyError) {
+      console.warn('Árfolyam-előzmény mentése sikertelen:', historyError);
+    }
+    await refreshHistory();
+  }, [refreshHistory]);
+
+  // Run by the refresh scheduler; rethrows so it can back off after failures.
+  const fetchRates = useCallback(async (signal: AbortSignal) => {
     try {
       setError(null);
-      const response = await fetch('https://open.er-api.com/v6/latest/HUF');
-      if (!response.ok) {
-        throw new Error('Hálózati hiba');
-      }
-      const data = await response.json();
-      const newRates = {
-        rates: {
-          EUR: data.rates.EUR,
-          USD: data.rates.USD,
-          GBP: data.rates.GBP,
-          CHF: data.rates.CHF
-        }
-      };
+      const { rates: newRates } = await fetchRatesWithFailover(
+        getProviderChain(preferredProvider),
+        baseCurrency,
+        signal
+      );
       setRates(newRates);
+      setIsShowingCached(false);
+      tabSyncRef.current?.post({ type: 'rates', rates: newRates });
       localStorage.setItem('cachedRates', JSON.stringify(newRates));
-    } catch {
+      void storeSnapshot(newRates);
+      return newRates;
+    } catch (fetchError) {
+      if (signal.aborted) throw fetchError;
       const cachedRates = localStorage.getItem('cachedRates');
       if (!cachedRates) {
-        setError('Nem sikerült az árfolyamok betöltése. Kérlek, ellenőrizd az internetkapcsolatot!');
+        setError(navigator.onLine
+          ? 'Nem sikerült az árfolyamok betöltése. Kérlek, ellenőrizd az internetkapcsolatot!'
+          : 'Nincs internetkapcsolat, és még nincs mentett árfolyam.');
+      } else {
+        setIsShowingCached(true);
       }
+      throw fetchError;
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) {
+        setNow(Date.now());
+        setIsLoading(false);
+      }
     }
+  }, [preferredProvider, baseCurrency, storeSnapshot]);
+
+  useEffect(() => {
+    void refreshHistory();
+  }, [refreshHistory]);
+
+  // Keeps the "updated X minutes ago" labels current between fetches.
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
   }, []);
 
   useEffect(() => {
@@ -320,48 +315,267 @@ function App() {
 
   useEffect(() => {
     localStorage.setItem('theme', isDarkMode ? 'dark' : 'light');
+    if (isDarkMode !== syncedThemeRef.current) {
+      syncedThemeRef.current = isDarkMode;
+      tabSyncRef.current?.post({ type: 'theme', isDarkMode });
+    }
   }, [isDarkMode]);
 
   useEffect(() => {
-    localStorage.setItem('currencyOrder', JSON.stringify(currencyOrder));
+    const serialized = JSON.stringify(currencyOrder);
+    localStorage.setItem('currencyOrder', serialized);
+    if (serialized !== syncedOrderRef.current) {
+      syncedOrderRef.current = serialized;
+      tabSyncRef.current?.post({ type: 'currencyOrder', order: currencyOrder });
+    }
   }, [currencyOrder]);
 
   useEffect(() => {
-    fetchRates();
-    const interval = setInterval(() => {
-      if (document.visibilityState === 'visible') {
-        fetchRates();
+    localStorage.setItem('rateProvider', preferredProvider);
+  }, [preferredProvider]);
+
+  useEffect(() => {
+    localStorage.setItem('baseCurrency', baseCurrency);
+  }, [baseCurrency]);
+
+  useEffect(() => {
+    saveReferenceTime(referenceTime);
+  }, [referenceTime]);
+
+  useEffect(() => {
+    saveProfiles(profiles);
+    const serialized = JSON.stringify(profiles);
+    if (serialized !== syncedProfilesRef.current) {
+      syncedProfilesRef.current = serialized;
+      tabSyncRef.current?.post({ type: 'profiles', profiles });
+    }
+  }, [profiles]);
+
+  useEffect(() => {
+    saveConversionHistory(conversionHistory);
+    const serialized = JSON.stringify(conversionHistory);
+    if (serialized !== syncedHistoryRef.current) {
+      syncedHistoryRef.current = serialized;
+      tabSyncRef.current?.post({ type: 'conversionHistory', entries: conversionHistory });
+    }
+  }, [conversionHistory]);
+
+  useEffect(() => {
+    saveSelectedProfileId(selectedProfileId);
+  }, [selectedProfileId]);
+
+  useEffect(() => {
+    saveRoundingMode(roundingMode);
+  }, [roundingMode]);
+
+  useEffect(() => {
+    alertsRef.current = alerts;
+    saveAlerts(alerts);
+    const serialized = JSON.stringify(alerts);
+    if (serialized !== syncedAlertsRef.current) {
+      syncedAlertsRef.current = serialized;
+      tabSyncRef.current?.post({ type: 'alerts', alerts });
+    }
+  }, [alerts]);
+
+  // The leader checks alerts whenever new rates arrive and shares the result,
+  // so every tab records the same firings. Daily-move alerts always compare
+  // with the previous close, whatever reference the cards show.
+  useEffect(() => {
+    if (!rates || !isLeaderRef.current) return;
+    let cancelled = false;
+    const hasDailyMove = alertsRef.current.some((alert) => alert.condition === 'dailyMove' && !alert.paused);
+    (hasDailyMove ? loadReferenceRates(null, rates.base, rates.provider) : Promise.resolve(null)).then((previousClose) => {
+      if (cancelled || !isLeaderRef.current) return;
+      const result = evaluateAlerts(alertsRef.current, rates, previousClose);
+      if (result.alerts.some((alert, index) => alert !== alertsRef.current[index])) {
+        setAlerts(result.alerts);
+      }
+      if (result.fired.length > 0) {
+        result.fired.forEach(showAlertNotification);
+        setFiredAlerts((current) => [...result.fired, ...current].slice(0, 5));
+        tabSyncRef.current?.post({ type: 'alertsFired', fired: result.fired });
       }
-    }, 30000);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [rates]);
 
-    const handleVisibility = () => {
-      if (document.visibilityState === 'visible') {
-        fetchRates();
+  // Re-resolved after every fetch too, so "previous close" rolls over at midnight.
+  const ratesProvider = rates?.provider;
+  useEffect(() => {
+    if (!ratesProvider) return;
+    let cancelled = false;
+    loadReferenceRates(referenceTime, baseCurrency, ratesProvider).then((reference) => {
+      if (!cancelled) setReferenceRates(reference);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [referenceTime, baseCurrency, ratesProvider, rates?.fetchedAt]);
+
+  useEffect(() => {
+    setRatesOnDate(null);
+    setRatesOnDateError(null);
+    if (!historicalDate) return;
+    let cancelled = false;
+    loadRatesOnDate(historicalDate, baseCurrency)
+      .then((result) => {
+        if (!cancelled) setRatesOnDate(result);
+      })
+      .catch((err) => {
+        console.warn('Múltbeli árfolyam nem elérhető:', err);
+        if (!cancelled) setRatesOnDateError('Erre a napra nem sikerült árfolyamot betölteni.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [historicalDate, baseCurrency]);
+
+  useEffect(() => {
+    ratesRef.current = rates;
+    baseCurrencyRef.current = baseCurrency;
+    refreshStateRef.current = refreshState;
+    isLeaderRef.current = isLeader;
+    typedAmountRef.current = amount;
+  }, [rates, baseCurrency, refreshState, isLeader, amount]);
+
+  // Only the leader tab fetches; the others receive its rates. Every tab
+  // mirrors the theme, card order, conversion log, alert and profile changes
+  // of the others.
+  useEffect(() => {
+    const handleMessage = (message: TabMessage) => {
+      switch (message.type) {
+        case 'rates': {
+          const base = baseCurrencyRef.current;
+          const received = message.rates;
+          setRates(received.base === base
+            ? received
+            : { ...received, base, rates: ratesFromQuotes(received.quotes, base) });
+          setError(null);
+          setIsShowingCached(false);
+          setIsLoading(false);
+          setNow(Date.now());
+          void refreshHistory();
+          break;
+        }
+        case 'refreshState':
+          setRefreshState(message.state);
+          inheritedRefreshAtRef.current = message.state.nextRefreshAt;
+          break;
+        case 'refreshRequest':
+          schedulerRef.current?.refreshNow();
+          break;
+        case 'syncRequest':
+          if (isLeaderRef.current) {
+            if (ratesRef.current) tabSync.post({ type: 'rates', rates: ratesRef.current });
+            tabSync.post({ type: 'refreshState', state: refreshStateRef.current });
+          }
+          break;
+        case 'theme':
+          syncedThemeRef.current = message.isDarkMode;
+          setIsDarkMode(message.isDarkMode);
+          break;
+        case 'currencyOrder':
+          syncedOrderRef.current = JSON.stringify(message.order);
+          setCurrencyOrder(message.order);
+          break;
+        case 'conversionHistory':
+          syncedHistoryRef.current = JSON.stringify(message.entries);
+          setConversionHistory(message.entries);
+          break;
+        case 'alerts':
+          syncedAlertsRef.current = JSON.stringify(message.alerts);
+          setAlerts(message.alerts);
+          break;
+        case 'alertsFired':
+          setFiredAlerts((current) => [...message.fired, ...current].slice(0, 5));
+          break;
+        case 'profiles':
+          syncedProfilesRef.current = JSON.stringify(message.profiles);
+          setProfiles(message.profiles);
+          break;
       }
     };
 
-    document.addEventListener('visibilitychange', handleVisibility);
-    window.addEventListener('focus', handleVisibility);
+    const tabSync = createTabSync({ onMessage: handleMessage, onLeaderChange: setIsLeader });
+    tabSyncRef.current = tabSync;
+    tabSync.start();
+    tabSync.post({ type: 'syncRequest' });
+    return () => {
+      tabSync.stop();
+      tabSyncRef.current = null;
+    };
+  }, [refreshHistory]);
+
+  // A new scheduler starts whenever the provider or base changes or this tab
+  // becomes the leader; stopping the old one aborts its in-flight request.
+  useEffect(() => {
+    if (!isLeader) return;
+    const scheduler = createRefreshScheduler({
+      refresh: fetchRates,
+      onStateChange: (state) => {
+        setRefreshState(state);
+        tabSyncRef.current?.post({ type: 'refreshState', state });
+      },
+    });
+    schedulerRef.current = scheduler;
+    const inheritedAt = inheritedRefreshAtRef.current;
+    inheritedRefreshAtRef.current = null;
+    scheduler.start(inheritedAt && ratesRef.current ? inheritedAt - Date.now() : 0);
+    return () => {
+      scheduler.stop();
+      schedulerRef.current = null;
+    };
+  }, [fetchRates, isLeader]);
 
+  // Offline, the service worker or the local cache supplies the last known
+  // rates; that is expected and is reported differently from a failed fetch.
+  // The scheduler refreshes by itself once the connection is back.
+  useEffect(() => {
+    const handleOnline = () => setIsOffline(false);
+    const handleOffline = () => setIsOffline(true);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
     return () => {
-      clearInterval(interval);
-      document.removeEventListener('visibilitychange', handleVisibility);
-      window.removeEventListener('focus', handleVisibility);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
     };
-  }, [fetchRates]);
+  }, []);
+
+  // The field may hold an expression such as `3*45,5` or `1 200+15%`; everything
+  // downstream works with its exact evaluated value, passed on as `1234.5`.
+  const amountResult = evaluateAmountExpression(amount);
+  const amountExact = amountResult?.ok && compareDecimal(amountResult.exact, ZERO) >= 0 ? amountResult.exact : null;
+  const amountError = amountResult && !amountResult.ok
+    ? amountResult.error
+    : amountResult && amountExact === null ? 'Az összeg nem lehet negatív' : null;
+  const effectiveAmount = amountExact !== null ? decimalToString(amountExact) : '';
+  // Set when a number could be read two ways, e.g. `1.234`.
+  const amountAmbiguity = amountResult?.ok ? amountResult.ambiguities[0] ?? null : null;
 
   const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value.replace(/[^0-9.]/g, '');
-    if (value.length <= 12) {
-      setAmount(value);
+    const value = e.target.value;
+    if (value.length <= 60) {
+      // Thousands are regrouped while typing, e.g. `12345` becomes `12 345`.
+      const formatted = formatNumberInput(value, e.target.selectionStart ?? value.length);
+      pendingCursorRef.current = formatted.cursor;
+      setAmount(formatted.text);
     }
   };
 
+  useLayoutEffect(() => {
+    const input = amountInputRef.current;
+    if (pendingCursorRef.current === null || !input || document.activeElement !== input) return;
+    input.setSelectionRange(pendingCursorRef.current, pendingCursorRef.current);
+    pendingCursorRef.current = null;
+  }, [amount]);
+
   const handleAmountAdjust = (increment: boolean) => {
-    const currentValue = parseFloat(amount) || 0;
-    const newValue = increment ? currentValue + 1 : currentValue - 1;
-    if (newValue >= 0) {
-      setAmount(newValue.toString());
+    const newValue = addDecimal(amountExact ?? ZERO, { units: increment ? 1n : -1n, scale: 0 });
+    if (compareDecimal(newValue, ZERO) >= 0) {
+      setAmount(formatDecimal(newValue, 0, newValue.scale));
     }
   };
 
@@ -377,37 +591,96 @@ function App() {
     }
   };
 
-  const getCurrencyCardProps = (currency: Currency) => {
-    const currencyConfigs: Record<Exclude<Currency, 'HUF'>, { bgColor: string; darkBgColor: string; icon: JSX.Element }> = {
-      EUR: {
-        bgColor: 'bg-gradient-to-br from-amber-50 to-orange-50',
-        darkBgColor: 'bg-gradient-to-br from-zinc-800 to-zinc-900',
-        icon: <Euro className={`w-8 h-8 ${isDarkMode ? 'text-cyan-400' : 'text-amber-600'}`} />
-      },
-      USD: {
-        bgColor: 'bg-gradient-to-br from-lime-50 to-emerald-50',
-        darkBgColor: 'bg-gradient-to-br from-zinc-800 to-zinc-900',
-        icon: <DollarSign className={`w-8 h-8 ${isDarkMode ? 'text-emerald-400' : 'text-emerald-600'}`} />
-      },
-      GBP: {
-        bgColor: 'bg-gradient-to-br from-sky-50 to-cyan-50',
-        darkBgColor: 'bg-gradient-to-br from-zinc-800 to-zinc-900',
-        icon: <PoundSterling className={`w-8 h-8 ${isDarkMode ? 'text-sky-400' : 'text-sky-600'}`} />
-      },
-      CHF: {
-        bgColor: 'bg-gradient-to-br from-rose-50 to-pink-50',
-        darkBgColor: 'bg-gradient-to-br from-zinc-800 to-zinc-900',
-        icon: <span className={`w-8 h-8 font-bold text-2xl ${isDarkMode ? 'text-rose-400' : 'text-rose-600'}`}>CHF</span>
-      }
-    };
+  const handleAddCurrency = (currency: Currency) => {
+    setCurrencyOrder((items) => (items.includes(currency) ? items : [...items, currency]));
+  };
 
+  const handleRemoveCurrency = (currency: Currency) => {
+    setCurrencyOrder((items) => (items.length > 1 ? items.filter((item) => item !== currency) : items));
+    if (selectedCurrency === currency) {
+      setSelectedCurrency(baseCurrency);
+    }
+  };
+
+  // Rebases what we already have right away; the refetch follows from fetchRates.
+  const handleBaseChange = (nextBase: Currency) => {
+    if (nextBase === baseCurrency) return;
+    const previousBase = baseCurrency;
+    setBaseCurrency(nextBase);
+    setRates((current) => (current && current.quotes.values[nextBase]
+      ? { ...current, base: nextBase, rates: ratesFromQuotes(current.quotes, nextBase) }
+      : current));
+    // The old home currency becomes an ordinary card.
+    setCurrencyOrder((items) => (items.includes(previousBase) ? items : [previousBase, ...items]));
+    if (selectedCurrency === previousBase) {
+      setSelectedCurrency(nextBase);
+    }
+  };
+
+  const cardCurrencies = currencyOrder.filter((code) => code !== baseCurrency);
+
+  // Everything the current source quotes that doesn't have a card yet.
+  const addableCurrencies = rates
+    ? Object.keys(rates.rates).filter((code) => code !== baseCurrency && !currencyOrder.includes(code)).sort()
+    : [];
+
+  const baseOptions = rates
+    ? Object.keys(rates.rates).sort()
+    : CURRENCIES.map((info) => info.code);
+
+  const selectedProfile = profiles.find((profile) => profile.id === selectedProfileId) ?? null;
+
+  // Cards show the chosen day's rates instead of live ones; the daily change
+  // against today's reference means nothing then.
+  const cardRates = historicalDate ? ratesOnDate?.rates ?? null : rates;
+  const todayIso = toLocalIsoDate(now);
+
+  // Logs the calculation once it has settled. Live rates and the typed input
+  // are read through refs, so neither a background refresh nor retyping the
+  // same value logs the amount again.
+  const historyTargets = [baseCurrency, ...cardCurrencies].filter((code) => code !== selectedCurrency).join(',');
+  const hasLiveRates = rates !== null;
+  useEffect(() => {
+    const sourceRates = historicalDate ? ratesOnDate?.rates : ratesRef.current;
+    const value = parseDecimal(effectiveAmount);
+    if (value === null || compareDecimal(value, ZERO) <= 0 || !sourceRates) return;
+    const timer = window.setTimeout(() => {
+      const entry = createConversionEntry(
+        typedAmountRef.current,
+        value,
+        selectedCurrency,
+        historyTargets.split(','),
+        sourceRates,
+        historicalDate ? ratesOnDate?.rateDate : undefined
+      );
+      if (entry) setConversionHistory((current) => addConversionEntry(current, entry));
+    }, HISTORY_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [effectiveAmount, selectedCurrency, historyTargets, historicalDate, ratesOnDate, hasLiveRates]);
+
+  const handleLoadConversion = (entry: ConversionEntry) => {
+    const amount = parseDecimal(entry.amount);
+    if (amount) setAmount(formatDecimal(amount, 0, amount.scale));
+    if (entry.currency !== baseCurrency) handleAddCurrency(entry.currency);
+    setSelectedCurrency(entry.currency);
+    setHistoricalDate(null);
+    setIsConversionLogOpen(false);
+  };
+
+  const getCurrencyCardProps = (currency: Currency) => {
     return {
       currency,
-      ...currencyConfigs[currency as Exclude<Currency, 'HUF'>],
       isDarkMode,
-      rates,
-      amount,
+      rates: cardRates,
+      isHistorical: historicalDate !== null,
+      amount: effectiveAmount,
       selectedCurrency,
+      history: rateHistory,
+      reference: historicalDate ? null : referenceRates,
+      profile: selectedProfile,
+      roundingMode,
+      onOpenChart: setChartCurrency,
+      onRemove: handleRemoveCurrency,
     };
   };
 
@@ -423,12 +696,12 @@ function App() {
         <h1 className={`text-xs text-center mb-6 ${
           isDarkMode ? 'text-zinc-500' : 'text-stone-500'
         }`}>
-          Devizaárfolyamok – EUR/HUF, USD/HUF, CHF/HUF, GBP/HUF
+          Devizaárfolyamok – {cardCurrencies.map((code) => `${code}/${baseCurrency}`).join(', ')}
         </h1>
 
         <div className="flex justify-between items-start mb-6">
           <div className="animate-slide-up">
-            <div className="flex items-center gap-4">
+            <div className="flex flex-wrap items-center gap-3">
               <h2 className={`text-4xl font-bold tracking-tight ${
                 isDarkMode ? 'text-zinc-100' : 'text-stone-800'
               } hover:text-cyan-500 transition-colors duration-300 drop-shadow-sm`}>
@@ -451,6 +724,89 @@ function App() {
                   <Moon className="w-5 h-5 transition-transform duration-500 rotate-0 hover:-rotate-12" />
                 }
               </button>
+              <button
+                type="button"
+                onClick={() => setIsDccCheckerOpen(true)}
+                aria-label="DCC-ellenőrző kártyás fizetéshez"
+                title="DCC-ellenőrző"
+                className={`p-2.5 rounded-xl transition-all duration-500 transform hover:scale-110 border ${
+                  isDarkMode
+                    ? 'bg-zinc-800 text-sky-400 hover:bg-zinc-700 hover:text-sky-300 border-zinc-700'
+                    : 'bg-stone-100 text-sky-600 hover:bg-stone-200 border-stone-300'
+                }`}
+              >
+                <CreditCard className="w-5 h-5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsInvoiceCalculatorOpen(true)}
+                aria-label="Számla- és ÁFA-kalkulátor"
+                title="Számla és ÁFA"
+                className={`p-2.5 rounded-xl transition-all duration-500 transform hover:scale-110 border ${
+                  isDarkMode
+                    ? 'bg-zinc-800 text-violet-400 hover:bg-zinc-700 hover:text-violet-300 border-zinc-700'
+                    : 'bg-stone-100 text-violet-600 hover:bg-stone-200 border-stone-300'
+                }`}
+              >
+                <Receipt className="w-5 h-5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsBasketPlannerOpen(true)}
+                aria-label="Költségkosár több devizában"
+                title="Költségkosár"
+                className={`p-2.5 rounded-xl transition-all duration-500 transform hover:scale-110 border ${
+                  isDarkMode
+                    ? 'bg-zinc-800 text-teal-400 hover:bg-zinc-700 hover:text-teal-300 border-zinc-700'
+                    : 'bg-stone-100 text-teal-600 hover:bg-stone-200 border-stone-300'
+                }`}
+              >
+                <ShoppingBasket className="w-5 h-5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsExpenseTrackerOpen(true)}
+                aria-label="Úti kiadások nyilvántartása"
+                title="Úti kiadások"
+                className={`p-2.5 rounded-xl transition-all duration-500 transform hover:scale-110 border ${
+                  isDarkMode
+                    ? 'bg-zinc-800 text-emerald-400 hover:bg-zinc-700 hover:text-emerald-300 border-zinc-700'
+                    : 'bg-stone-100 text-emerald-600 hover:bg-stone-200 border-stone-300'
+                }`}
+              >
+                <Wallet className="w-5 h-5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsConversionLogOpen(true)}
+                aria-label="Átváltási napló"
+                title="Átváltási napló"
+                className={`p-2.5 rounded-xl transition-all duration-500 transform hover:scale-110 border ${
+                  isDarkMode
+                    ? 'bg-zinc-800 text-cyan-400 hover:bg-zinc-700 hover:text-cyan-300 border-zinc-700'
+                    : 'bg-stone-100 text-cyan-600 hover:bg-stone-200 border-stone-300'
+                }`}
+              >
+                <ScrollText className="w-5 h-5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsAlertManagerOpen(true)}
+                aria-label="Árfolyam-riasztások"
+                title="Árfolyam-riasztások"
+                className={`relative p-2.5 rounded-xl transition-all duration-500 transform hover:scale-110 border ${
+                  isDarkMode
+                    ? 'bg-zinc-800 text-amber-400 hover:bg-zinc-700 hover:text-amber-300 border-zinc-700'
+                    : 'bg-stone-100 text-amber-600 hover:bg-stone-200 border-stone-300'
+                }`}
+              >
+                <Bell className="w-5 h-5" />
+                {alerts.some((alert) => alert.isTriggered && !alert.paused) && (
+                  <span className={`absolute -top-1 -right-1 w-3 h-3 rounded-full bg-amber-500 ring-2 ${
+                    isDarkMode ? 'ring-zinc-900' : 'ring-white'
+                  }`} />
+                )}
+              </button>
               <button
                 type="button"
                 onClick={toggleGameMode}
@@ -470,7 +826,7 @@ function App() {
                 {isGameMode ? <ArrowLeft className="w-5 h-5" /> : <Gamepad2 className="w-5 h-5" />}
               </button>
             </div>
-            <div className="mt-5 mb-6 flex gap-3 w-full">
+            <div className="mt-5 flex flex-wrap sm:flex-nowrap gap-3 w-full">
               <div className="relative flex-1 min-w-0 flex">
                 <label htmlFor="amount-input" className="sr-only">Összeg</label>
                 <button
@@ -486,13 +842,16 @@ function App() {
                   -
                 </button>
                 <input
+                  ref={amountInputRef}
                   id="amount-input"
                   type="text"
                   inputMode="decimal"
                   value={amount}
                   onChange={handleAmountChange}
+                  aria-invalid={Boolean(amountError)}
+                  aria-describedby="amount-feedback"
                   className={`w-full py-3 px-11 text-lg text-center rounded-xl transition-all duration-300 border
-                    focus:ring-2 focus:ring-cyan-500 focus:border-transparent ${
+                    focus:ring-2 focus:ring-cyan-500 focus:border-transparent ${amountError ? 'ring-2 ring-rose-500' : ''} ${
                     isDarkMode
                       ? 'bg-zinc-800/70 border-zinc-700 text-zinc-100 placeholder-zinc-500'
                       : 'bg-stone-50 border-stone-300 text-stone-800 placeholder-stone-400'
@@ -526,14 +885,49 @@ function App() {
                       : 'bg-stone-50 border-stone-300 text-stone-800'
                   }`}
                 >
-                  <option value="EUR">EUR</option>
-                  <option value="HUF">HUF</option>
-                  <option value="USD">USD</option>
-                  <option value="GBP">GBP</option>
-                  <option value="CHF">CHF</option>
+                  {[baseCurrency, ...cardCurrencies].map((currency) => (
+                    <option key={currency} value={currency}>{currency}</option>
+                  ))}
                 </select>
               </div>
+              <div className="w-full sm:w-44">
+                <label htmlFor="rate-date-input" className="sr-only">Árfolyam napja</label>
+                <input
+                  id="rate-date-input"
+                  type="date"
+                  value={historicalDate ?? todayIso}
+                  min="1999-01-04"
+                  max={todayIso}
+                  onChange={(e) => setHistoricalDate(e.target.value && e.target.value < todayIso ? e.target.value : null)}
+                  title="Átváltás egy múltbeli nap árfolyamán"
+                  className={`w-full py-3 px-3 text-base text-center rounded-xl transition-all duration-300 border
+                    focus:ring-2 focus:ring-cyan-500 focus:border-transparent ${
+                    historicalDate
+                      ? (isDarkMode ? 'bg-violet-950/40 border-violet-800 text-violet-200' : 'bg-violet-50 border-violet-300 text-violet-800')
+                      : (isDarkMode ? 'bg-zinc-800/70 border-zinc-700 text-zinc-100' : 'bg-stone-50 border-stone-300 text-stone-800')
+                  }`}
+                />
+              </div>
             </div>
+            <p
+              id="amount-feedback"
+              aria-live="polite"
+              className={`mt-1 mb-5 min-h-[1.25rem] text-sm text-center ${
+                amountError
+                  ? (isDarkMode ? 'text-rose-400' : 'text-rose-600')
+                  : amountAmbiguity
+                    ? (isDarkMode ? 'text-amber-400' : 'text-amber-700')
+                    : (isDarkMode ? 'text-zinc-400' : 'text-stone-500')
+              }`}
+            >
+              {amountError
+                ? `${amountError} (${amountResult && !amountResult.ok ? amountResult.position + 1 : 1}. karakter)`
+                : amountAmbiguity
+                  ? amountAmbiguity
+                  : amountResult?.ok && amountResult.isExpression && amountExact !== null
+                    ? `= ${formatDecimal(amountExact, 0, 4)}`
+                    : ''}
+            </p>
           </div>
         </div>
 
@@ -556,6 +950,90 @@ function App() {
               </div>
             )}
 
+            {firedAlerts.map(({ alert, firing }) => (
+              <div
+                key={`${alert.id}-${firing.ts}`}
+                role="alert"
+                className={`p-4 rounded-xl flex items-center gap-3 border ${
+                  isDarkMode ? 'bg-cyan-950/30 border-cyan-900/50 text-cyan-200' : 'bg-cyan-50 border-cyan-200 text-cyan-800'
+                }`}
+              >
+                <BellRing className="w-5 h-5 flex-shrink-0" />
+                <span className="text-sm flex-1">{firing.message}</span>
+                <button
+                  type="button"
+                  onClick={() => setFiredAlerts((current) => current.filter((item) => item.firing !== firing))}
+                  aria-label="Értesítés bezárása"
+                  className="p-1 rounded-lg hover:bg-black/10"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+
+            {isOffline && rates && (
+              <div
+                role="status"
+                aria-live="polite"
+                className={`p-4 rounded-xl flex items-center gap-3 border ${
+                  isDarkMode ? 'bg-zinc-800/60 border-zinc-700 text-zinc-300' : 'bg-stone-100 border-stone-300 text-stone-700'
+                }`}
+              >
+                <WifiOff className="w-5 h-5 flex-shrink-0" />
+                <span className="text-sm">
+                  Offline vagy. A legutóbb mentett árfolyamokat látod
+                  {rates.fetchedAt > 0 ? ` (lekérve ${formatRelativeTime(rates.fetchedAt, now)})` : ''}.
+                </span>
+              </div>
+            )}
+
+            {isShowingCached && !isOffline && rates && (
+              <div
+                role="status"
+                aria-live="polite"
+                className={`p-4 rounded-xl flex items-center gap-3 border ${
+                  isDarkMode ? 'bg-amber-950/30 border-amber-900/50 text-amber-300' : 'bg-amber-50 border-amber-300 text-amber-800'
+                }`}
+              >
+                <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                <span className="text-sm">
+                  Nem sikerült friss árfolyamot lekérni. Tárolt árfolyamokat látsz
+                  {rates.fetchedAt > 0 ? ` (lekérve ${formatRelativeTime(rates.fetchedAt, now)})` : ''}.
+                </span>
+              </div>
+            )}
+
+            {historicalDate && (
+              <div
+                role="status"
+                aria-live="polite"
+                className={`p-4 rounded-xl flex items-center gap-3 border ${
+                  isDarkMode ? 'bg-violet-950/30 border-violet-900/50 text-violet-200' : 'bg-violet-50 border-violet-300 text-violet-800'
+                }`}
+              >
+                <History className="w-5 h-5 flex-shrink-0" />
+                <span className="text-sm flex-1">
+                  {ratesOnDateError
+                    ?? (ratesOnDate
+                      ? `Nem élő árfolyam: ${new Date(`${ratesOnDate.rateDate}T12:00:00`).toLocaleDateString('hu-HU')} ${
+                        ratesOnDate.source === 'local' ? '(helyi előzmény)' : `(${getProviderName(ratesOnDate.rates.provider)})`
+                      }${ratesOnDate.rateDate !== historicalDate ? ', az utolsó közzétett nap' : ''}.`
+                      : 'Múltbeli árfolyam betöltése…')}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setHistoricalDate(null)}
+                  className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${
+                    isDarkMode
+                      ? 'bg-violet-900/40 border-violet-800 hover:bg-violet-900/70'
+                      : 'bg-white border-violet-300 hover:bg-violet-100'
+                  }`}
+                >
+                  Vissza a mai naphoz
+                </button>
+              </div>
+            )}
+
             {isLoading && !rates ? (
               <div className="grid grid-cols-1 gap-4">
                 {[1, 2, 3, 4].map((i) => (
@@ -590,11 +1068,11 @@ function App() {
                   onDragEnd={handleDragEnd}
                 >
                   <SortableContext
-                    items={currencyOrder}
+                    items={cardCurrencies}
                     strategy={verticalListSortingStrategy}
                   >
                     <div className="grid grid-cols-1 gap-4" role="list" aria-describedby="currency-order-help">
-                      {currencyOrder.map((currency) => (
+                      {cardCurrencies.map((currency) => (
                         <SortableCurrencyCard
                           key={currency}
                           {...getCurrencyCardProps(currency)}
@@ -603,25 +1081,185 @@ function App() {
                     </div>
                   </SortableContext>
                 </DndContext>
+                {addableCurrencies.length > 0 && (
+                  <div className="relative">
+                    <Plus className={`w-4 h-4 absolute left-4 top-1/2 -translate-y-1/2 pointer-events-none ${
+                      isDarkMode ? 'text-zinc-400' : 'text-stone-500'
+                    }`} />
+                    <label htmlFor="add-currency-select" className="sr-only">Deviza hozzáadása</label>
+                    <select
+                      id="add-currency-select"
+                      value=""
+                      onChange={(e) => handleAddCurrency(e.target.value)}
+                      className={`w-full py-3 pl-10 pr-4 rounded-2xl border border-dashed text-sm transition-colors
+                        focus:ring-2 focus:ring-cyan-500 focus:border-transparent ${
+                        isDarkMode
+                          ? 'bg-zinc-900/60 border-zinc-700 text-zinc-400 hover:border-zinc-500'
+                          : 'bg-stone-50 border-stone-300 text-stone-500 hover:border-stone-400'
+                      }`}
+                    >
+                      <option value="" disabled>Deviza hozzáadása…</option>
+                      {addableCurrencies.map((code) => (
+                        <option key={code} value={code}>
+                          {code} – {getCurrencyInfo(code).name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div className={`flex items-center justify-center gap-2 text-xs ${isDarkMode ? 'text-zinc-500' : 'text-stone-500'}`}>
+                  {rates && (
+                    <span title={rates.fetchedAt > 0 ? `Lekérve: ${new Date(rates.fetchedAt).toLocaleString('hu-HU')}` : undefined}>
+                      Forrás: {getProviderName(rates.provider)}
+                    </span>
+                  )}
+                  {rates?.sourceUpdatedAt && (
+                    <span title={new Date(rates.sourceUpdatedAt).toLocaleString('hu-HU')}>
+                      · Frissítve {formatRelativeTime(rates.sourceUpdatedAt, now)}
+                    </span>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => (isLeader
+                      ? schedulerRef.current?.refreshNow()
+                      : tabSyncRef.current?.post({ type: 'refreshRequest' }))}
+                    disabled={refreshState.isRefreshing}
+                    aria-label={refreshState.isRefreshing ? 'Frissítés folyamatban' : 'Árfolyamok frissítése most'}
+                    title={refreshState.nextRefreshAt && !refreshState.isRefreshing
+                      ? `Következő automatikus frissítés: ${new Date(refreshState.nextRefreshAt).toLocaleTimeString('hu-HU', { hour: '2-digit', minute: '2-digit' })}`
+                      : undefined}
+                    className={`p-1 rounded-lg transition-colors disabled:cursor-wait ${
+                      isDarkMode ? 'hover:bg-zinc-800 hover:text-cyan-400' : 'hover:bg-stone-100 hover:text-cyan-600'
+                    }`}
+                  >
+                    <RefreshCw className={`w-3.5 h-3.5 ${refreshState.isRefreshing ? 'animate-spin' : ''}`} />
+                  </button>
+                  <label htmlFor="provider-select" className="sr-only">Árfolyamforrás</label>
+                  <select
+                    id="provider-select"
+                    value={preferredProvider}
+                    onChange={(e) => setPreferredProvider(e.target.value)}
+                    aria-label="Árfolyamforrás kiválasztása"
+                    className={`py-1 px-2 rounded-lg border text-xs ${
+                      isDarkMode
+                        ? 'bg-zinc-800/70 border-zinc-700 text-zinc-300'
+                        : 'bg-stone-50 border-stone-300 text-stone-600'
+                    }`}
+                  >
+                    {RATE_PROVIDERS.map((provider) => (
+                      <option key={provider.id} value={provider.id}>{provider.name}</option>
+                    ))}
+                  </select>
+                  <label htmlFor="base-select">Alap:</label>
+                  <select
+                    id="base-select"
+                    value={baseCurrency}
+                    onChange={(e) => handleBaseChange(e.target.value)}
+                    aria-label="Alapdeviza kiválasztása"
+                    title="Alapdeviza"
+                    className={`py-1 px-2 rounded-lg border text-xs ${
+                      isDarkMode
+                        ? 'bg-zinc-800/70 border-zinc-700 text-zinc-300'
+                        : 'bg-stone-50 border-stone-300 text-stone-600'
+                    }`}
+                  >
+                    {baseOptions.map((code) => (
+                      <option key={code} value={code}>{code}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className={`flex flex-wrap items-center justify-center gap-2 text-xs ${isDarkMode ? 'text-zinc-500' : 'text-stone-500'}`}>
+                  <label htmlFor="reference-select">Változás ehhez képest:</label>
+                  <select
+                    id="reference-select"
+                    value={referenceTime === null ? 'close' : 'custom'}
+                    onChange={(e) => setReferenceTime(e.target.value === 'close' ? null : Date.now() - DAY_MS)}
+                    className={`py-1 px-2 rounded-lg border text-xs ${
+                      isDarkMode
+                        ? 'bg-zinc-800/70 border-zinc-700 text-zinc-300'
+                        : 'bg-stone-50 border-stone-300 text-stone-600'
+                    }`}
+                  >
+                    <option value="close">előző napi zárás</option>
+                    <option value="custom">egyedi időpont</option>
+                  </select>
+                  {referenceTime !== null && (
+                    <>
+                      <label htmlFor="reference-time" className="sr-only">Viszonyítási időpont</label>
+                      <input
+                        id="reference-time"
+                        type="datetime-local"
+                        value={toDateTimeLocal(referenceTime)}
+                        max={toDateTimeLocal(now)}
+                        onChange={(e) => {
+                          const ts = new Date(e.target.value).getTime();
+                          if (Number.isFinite(ts)) setReferenceTime(ts);
+                        }}
+                        className={`py-1 px-2 rounded-lg border text-xs ${
+                          isDarkMode
+                            ? 'bg-zinc-800/70 border-zinc-700 text-zinc-300'
+                            : 'bg-stone-50 border-stone-300 text-stone-600'
+                        }`}
+                      />
+                    </>
+                  )}
+                </div>
+                <div className={`flex flex-wrap items-center justify-center gap-2 text-xs ${isDarkMode ? 'text-zinc-500' : 'text-stone-500'}`}>
+                  <label htmlFor="profile-select">Váltás:</label>
+                  <select
+                    id="profile-select"
+                    value={selectedProfile?.id ?? ''}
+                    onChange={(e) => setSelectedProfileId(e.target.value || null)}
+                    className={`py-1 px-2 rounded-lg border text-xs ${
+                      isDarkMode
+                        ? 'bg-zinc-800/70 border-zinc-700 text-zinc-300'
+                        : 'bg-stone-50 border-stone-300 text-stone-600'
+                    }`}
+                  >
+                    <option value="">csak középárfolyam</option>
+                    {profiles.map((profile) => (
+                      <option key={profile.id} value={profile.id}>{profile.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setIsProfileManagerOpen(true)}
+                    aria-label="Váltási profilok kezelése"
+                    title="Profilok kezelése"
+                    className={`p-1 rounded-lg transition-colors ${
+                      isDarkMode ? 'hover:bg-zinc-800 hover:text-cyan-400' : 'hover:bg-stone-100 hover:text-cyan-600'
+                    }`}
+                  >
+                    <SlidersHorizontal className="w-3.5 h-3.5" />
+                  </button>
+                  <label htmlFor="rounding-select" className="ml-2">Kerekítés:</label>
+                  <select
+                    id="rounding-select"
+                    value={roundingMode}
+                    onChange={(e) => setRoundingMode(e.target.value as RoundingMode)}
+                    className={`py-1 px-2 rounded-lg border text-xs ${
+                      isDarkMode
+                        ? 'bg-zinc-800/70 border-zinc-700 text-zinc-300'
+                        : 'bg-stone-50 border-stone-300 text-stone-600'
+                    }`}
+                  >
+                    {ROUNDING_MODES.map((mode) => (
+                      <option key={mode.id} value={mode.id}>{mode.label}</option>
+                    ))}
+                  </select>
+                </div>
               </>
             )}
           </div>
 
           <div className="mt-6 space-y-4">
-            <div className={`p-4 rounded-2xl transition-all duration-300 transform hover:scale-[1.02] border ${
-              isDarkMode ? 'bg-zinc-800/50 border-zinc-700/50 hover:border-cyan-600/50' : 'bg-amber-50/50 border-stone-200 hover:border-amber-300'
-            } hover:shadow-lg`}>
-              <a
-                href="https://revolut.com/referral/?referral-code=roland309s!MAR1-25-AR-H1"
-                target="_blank"
-                rel="noopener noreferrer sponsored nofollow"
-                className="block text-center"
-              >
-                <p className={`text-sm ${isDarkMode ? 'text-zinc-300' : 'text-stone-600'}`}>
-                  💳 Nyiss Revolut számlát és használd az ingyenes nemzetközi utalásokat!
-                </p>
-              </a>
-            </div>
+            <ProviderComparison
+              amount={effectiveAmount}
+              selectedCurrency={selectedCurrency}
+              rates={rates}
+              currencies={cardCurrencies}
+              isDarkMode={isDarkMode}
+            />
 
             <section
               id="faq"
@@ -646,6 +1284,90 @@ function App() {
           </div>
         </div>
       </div>
+
+      {/* Rendered outside the backdrop-blurred panel so `fixed` spans the viewport. */}
+      {chartCurrency && (
+        <RateChart
+          currency={chartCurrency}
+          base={baseCurrency}
+          isDarkMode={isDarkMode}
+          onClose={() => setChartCurrency(null)}
+        />
+      )}
+
+      {isProfileManagerOpen && (
+        <ProfileManager
+          profiles={profiles}
+          onChange={setProfiles}
+          currencies={baseOptions}
+          isDarkMode={isDarkMode}
+          onClose={() => setIsProfileManagerOpen(false)}
+        />
+      )}
+
+      {isDccCheckerOpen && (
+        <DccChecker
+          rates={rates}
+          currencies={cardCurrencies}
+          profiles={profiles}
+          defaultProfileId={selectedProfileId}
+          isDarkMode={isDarkMode}
+          onClose={() => setIsDccCheckerOpen(false)}
+        />
+      )}
+
+      {isInvoiceCalculatorOpen && (
+        <InvoiceCalculator
+          rates={rates}
+          currencies={[baseCurrency, ...cardCurrencies].filter((code) => code !== 'HUF')}
+          isDarkMode={isDarkMode}
+          onClose={() => setIsInvoiceCalculatorOpen(false)}
+        />
+      )}
+
+      {isBasketPlannerOpen && (
+        <BasketPlanner
+          rates={rates}
+          currencies={[baseCurrency, ...cardCurrencies]}
+          roundingMode={roundingMode}
+          isDarkMode={isDarkMode}
+          onClose={() => setIsBasketPlannerOpen(false)}
+        />
+      )}
+
+      {isExpenseTrackerOpen && (
+        <ExpenseTracker
+          rates={rates}
+          currencies={[baseCurrency, ...cardCurrencies]}
+          roundingMode={roundingMode}
+          isDarkMode={isDarkMode}
+          onClose={() => setIsExpenseTrackerOpen(false)}
+        />
+      )}
+
+      {isConversionLogOpen && (
+        <ConversionLog
+          entries={conversionHistory}
+          rates={rates}
+          roundingMode={roundingMode}
+          isDarkMode={isDarkMode}
+          onChange={setConversionHistory}
+          onLoad={handleLoadConversion}
+          onClose={() => setIsConversionLogOpen(false)}
+        />
+      )}
+
+      {isAlertManagerOpen && (
+        <AlertManager
+          alerts={alerts}
+          onChange={setAlerts}
+          currencies={cardCurrencies}
+          base={baseCurrency}
+          rates={rates}
+          isDarkMode={isDarkMode}
+          onClose={() => setIsAlertManagerOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,236 @@
+import { useState, useEffect, useRef } from 'react';
+import { X, Plus, Trash2 } from 'lucide-react';
+import Dialog from './Dialog';
+import { Currency, getCurrencySymbol } from './currencies';
+import { ExchangeRates } from './rateProviders';
+import { Basket, BasketItem, createBasket, createBasketItem, loadBaskets, saveBaskets, totalBasket } from './baskets';
+import { Money } from './money';
+import { RoundingMode, roundAmount } from './rounding';
+
+interface BasketPlannerProps {
+  rates: ExchangeRates | null;
+  // Offered first in the line currency lists; every quoted code follows.
+  currencies: Currency[];
+  roundingMode: RoundingMode;
+  isDarkMode: boolean;
+  onClose: () => void;
+}
+
+const formatTime = (ts: number) =>
+  new Intl.DateTimeFormat('hu-HU', { dateStyle: 'short', timeStyle: 'short' }).format(ts);
+
+export default function BasketPlanner({ rates, currencies, roundingMode, isDarkMode, onClose }: BasketPlannerProps) {
+  const defaultCurrency = currencies.find((code) => code !== rates?.base) ?? 'EUR';
+  const [baskets, setBaskets] = useState<Basket[]>(() => {
+    const saved = loadBaskets();
+    return saved.length > 0 ? saved : [createBasket('Utazás', defaultCurrency)];
+  });
+  // The most recently edited basket opens first.
+  const [currentId, setCurrentId] = useState<string>(
+    () => [...baskets].sort((a, b) => b.updatedAt - a.updatedAt)[0].id
+  );
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    saveBaskets(baskets);
+  }, [baskets]);
+
+  const basket = baskets.find((item) => item.id === currentId) ?? baskets[0];
+  const codes = [...new Set([...currencies, ...Object.keys(rates?.rates ?? {}).sort()])];
+  const summary = rates ? totalBasket(basket, rates.base, rates.quotes) : null;
+
+  const updateBasket = (changes: Partial<Basket>) => {
+    setBaskets((current) => current.map((item) => (item.id === basket.id
+      ? { ...item, ...changes, updatedAt: Date.now() }
+      : item)));
+  };
+
+  const updateItem = (id: string, changes: Partial<BasketItem>) => {
+    updateBasket({ items: basket.items.map((item) => (item.id === id ? { ...item, ...changes } : item)) });
+  };
+
+  const handleNewBasket = () => {
+    const created = createBasket(`Kosár ${baskets.length + 1}`, defaultCurrency);
+    setBaskets((current) => [...current, created]);
+    setCurrentId(created.id);
+  };
+
+  const handleDeleteBasket = () => {
+    const remaining = baskets.filter((item) => item.id !== basket.id);
+    const next = remaining.length > 0 ? remaining : [createBasket('Utazás', defaultCurrency)];
+    setBaskets(next);
+    setCurrentId(next[0].id);
+  };
+
+  const formatMoney = (money: Money) => {
+    const rounded = roundAmount(money, roundingMode);
+    return `${rounded.isRounded ? '≈ ' : ''}${rounded.text} ${getCurrencySymbol(money.currency)}`;
+  };
+
+  const fieldClass = `py-2 px-3 rounded-xl border text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent ${
+    isDarkMode ? 'bg-zinc-800/70 border-zinc-700 text-zinc-100' : 'bg-stone-50 border-stone-300 text-stone-800'
+  }`;
+  const mutedText = isDarkMode ? 'text-zinc-400' : 'text-stone-500';
+  const iconButtonClass = `p-2 rounded-lg transition-colors ${
+    isDarkMode ? 'text-zinc-400 hover:text-cyan-400 hover:bg-zinc-800' : 'text-stone-500 hover:text-cyan-600 hover:bg-stone-100'
+  }`;
+
+  return (
+    <Dialog
+      labelledBy="basket-planner-title"
+      initialFocusRef={closeButtonRef}
+      onClose={onClose}
+      className={`w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-3xl shadow-2xl p-6 border ${
+        isDarkMode ? 'bg-zinc-900 border-zinc-800 text-zinc-100' : 'bg-white border-stone-200 text-stone-800'
+      }`}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h2 id="basket-planner-title" className="text-2xl font-bold">Költségkosár</h2>
+        <button
+          ref={closeButtonRef}
+          type="button"
+          onClick={onClose}
+          aria-label="Költségkosár bezárása"
+          className={`p-2 rounded-xl border transition-colors ${
+            isDarkMode
+              ? 'bg-zinc-800 border-zinc-700 hover:bg-zinc-700 text-zinc-300'
+              : 'bg-stone-100 border-stone-300 hover:bg-stone-200 text-stone-600'
+          }`}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <label htmlFor="basket-select" className="sr-only">Mentett kosarak</label>
+        <select
+          id="basket-select"
+          value={basket.id}
+          onChange={(e) => setCurrentId(e.target.value)}
+          className={`${fieldClass} flex-1 min-w-0`}
+        >
+          {baskets.map((item) => (
+            <option key={item.id} value={item.id}>{item.name || 'Névtelen kosár'}</option>
+          ))}
+        </select>
+        <button type="button" onClick={handleNewBasket} aria-label="Új kosár" title="Új kosár" className={iconButtonClass}>
+          <Plus className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={handleDeleteBasket}
+          aria-label="Kosár törlése"
+          title="Kosár törlése"
+          className={iconButtonClass}
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+      <label className={`block text-xs mb-4 ${mutedText}`}>
+        Név
+        <input
+          type="text"
+          value={basket.name}
+          onChange={(e) => updateBasket({ name: e.target.value })}
+          maxLength={60}
+          className={`${fieldClass} mt-1 w-full`}
+        />
+      </label>
+
+      <ul className="space-y-2 mb-3">
+        {basket.items.map((item, index) => {
+          const line = summary?.lines[index];
+          return (
+            <li
+              key={item.id}
+              className={`p-3 rounded-2xl border ${
+                isDarkMode ? 'bg-zinc-800/50 border-zinc-700/50' : 'bg-stone-50 border-stone-200'
+              }`}
+            >
+              <div className="flex gap-2">
+                <label htmlFor={`basket-label-${item.id}`} className="sr-only">Tétel</label>
+                <input
+                  id={`basket-label-${item.id}`}
+                  type="text"
+                  value={item.label}
+                  onChange={(e) => updateItem(item.id, { label: e.target.value })}
+                  placeholder="Tétel, pl. szállás"
+                  className={`${fieldClass} flex-1 min-w-0`}
+                />
+                <button
+                  type="button"
+                  onClick={() => updateBasket({ items: basket.items.filter((entry) => entry.id !== item.id) })}
+                  aria-label="Tétel törlése"
+                  className={iconButtonClass}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="mt-2 flex gap-2 items-center">
+                <label htmlFor={`basket-amount-${item.id}`} className="sr-only">Összeg</label>
+                <input
+                  id={`basket-amount-${item.id}`}
+                  type="text"
+                  inputMode="decimal"
+                  value={item.amount}
+                  onChange={(e) => updateItem(item.id, { amount: e.target.value })}
+                  placeholder="Összeg"
+                  maxLength={60}
+                  aria-invalid={Boolean(line?.error)}
+                  className={`${fieldClass} w-28 ${line?.error ? 'ring-2 ring-rose-500' : ''}`}
+                />
+                <label htmlFor={`basket-currency-${item.id}`} className="sr-only">Deviza</label>
+                <select
+                  id={`basket-currency-${item.id}`}
+                  value={item.currency}
+                  onChange={(e) => updateItem(item.id, { currency: e.target.value })}
+                  className={`${fieldClass} w-24`}
+                >
+                  {codes.map((code) => (
+                    <option key={code} value={code}>{code}</option>
+                  ))}
+                </select>
+                <span
+                  className={`flex-1 text-right text-sm ${line?.error ? (isDarkMode ? 'text-rose-400' : 'text-rose-600') : ''}`}
+                >
+                  {line?.error ?? (line?.converted ? formatMoney(line.converted) : '')}
+                </span>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      <button
+        type="button"
+        onClick={() => updateBasket({ items: [...basket.items, createBasketItem(defaultCurrency)] })}
+        className={`w-full px-4 py-2 rounded-xl text-sm border border-dashed inline-flex items-center justify-center gap-2 ${
+          isDarkMode ? 'border-zinc-700 text-zinc-300 hover:bg-zinc-800' : 'border-stone-300 text-stone-600 hover:bg-stone-100'
+        }`}
+      >
+        <Plus className="w-4 h-4" />
+        Tétel hozzáadása
+      </button>
+
+      {!rates || !summary ? (
+        <p className={`mt-4 text-sm ${mutedText}`}>Árfolyamok betöltése…</p>
+      ) : (
+        <div
+          role="status"
+          aria-live="polite"
+          className={`mt-4 p-4 rounded-2xl border ${
+            isDarkMode ? 'bg-cyan-950/30 border-cyan-900/50' : 'bg-cyan-50 border-cyan-200'
+          }`}
+        >
+          <div className="flex items-baseline justify-between gap-2">
+            <span className="text-sm font-medium">Összesen</span>
+            <span className="text-2xl font-bold">{formatMoney(summary.total)}</span>
+          </div>
+          <p className={`mt-1 text-xs ${mutedText}`}>
+            Középárfolyamon, {formatTime(rates.fetchedAt)} állapot szerint
+            {summary.skipped > 0 ? ` · ${summary.skipped} tétel kimaradt` : ''}
+          </p>
+        </div>
+      )}
+    </Dialog>
+  );
+}
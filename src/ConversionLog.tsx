@@ -0,0 +1,263 @@
+import { useState, useRef } from 'react';
+import { X, Star, Trash2, Download, RotateCcw } from 'lucide-react';
+import Dialog from './Dialog';
+import { getCurrencySymbol } from './currencies';
+import { ExchangeRates, getProviderName } from './rateProviders';
+import { Money, formatDecimal, parseDecimal } from './money';
+import { RoundingMode, roundAmount } from './rounding';
+import { ConversionEntry, historyToCsvRows, historyToJson, rerunConversion, searchHistory } from './conversionHistory';
+import { downloadCsv, downloadFile } from './exportFile';
+import { toLocalIsoDate } from './ratesOnDate';
+
+type RateChoice = 'original' | 'current';
+
+interface ConversionLogProps {
+  entries: ConversionEntry[];
+  // Live rates, for re-running entries at today's rate.
+  rates: ExchangeRates | null;
+  roundingMode: RoundingMode;
+  isDarkMode: boolean;
+  onChange: (entries: ConversionEntry[]) => void;
+  // Puts the entry's amount and currency back into the converter.
+  onLoad: (entry: ConversionEntry) => void;
+  onClose: () => void;
+}
+
+const formatTime = (ts: number) =>
+  new Intl.DateTimeFormat('hu-HU', { dateStyle: 'short', timeStyle: 'short' }).format(ts);
+
+export default function ConversionLog({
+  entries,
+  rates,
+  roundingMode,
+  isDarkMode,
+  onChange,
+  onLoad,
+  onClose,
+}: ConversionLogProps) {
+  const [query, setQuery] = useState('');
+  const [starredOnly, setStarredOnly] = useState(false);
+  const [rateChoice, setRateChoice] = useState<RateChoice>('original');
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  const visible = searchHistory(entries, query).filter((entry) => !starredOnly || entry.starred);
+  const hasUnstarred = entries.some((entry) => !entry.starred);
+
+  const toggleStar = (id: string) => {
+    onChange(entries.map((entry) => (entry.id === id ? { ...entry, starred: !entry.starred } : entry)));
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const fileName = `atvaltasok-${toLocalIsoDate(Date.now())}`;
+    if (format === 'csv') {
+      downloadCsv(`${fileName}.csv`, historyToCsvRows(visible));
+    } else {
+      downloadFile(`${fileName}.json`, historyToJson(visible), 'application/json');
+    }
+  };
+
+  const formatMoney = (money: Money) => {
+    const rounded = roundAmount(money, roundingMode);
+    return `${rounded.isRounded ? '≈ ' : ''}${rounded.text} ${getCurrencySymbol(money.currency)}`;
+  };
+
+  const formatSource = (entry: ConversionEntry) => {
+    const amount = parseDecimal(entry.amount);
+    return amount
+      ? `${formatDecimal(amount, 0, amount.scale)} ${getCurrencySymbol(entry.currency)}`
+      : `${entry.amount} ${entry.currency}`;
+  };
+
+  const fieldClass = `py-2 px-3 rounded-xl border text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent ${
+    isDarkMode ? 'bg-zinc-800/70 border-zinc-700 text-zinc-100' : 'bg-stone-50 border-stone-300 text-stone-800'
+  }`;
+  const mutedText = isDarkMode ? 'text-zinc-400' : 'text-stone-500';
+  const iconButtonClass = `p-2 rounded-lg transition-colors ${
+    isDarkMode ? 'text-zinc-400 hover:text-cyan-400 hover:bg-zinc-800' : 'text-stone-500 hover:text-cyan-600 hover:bg-stone-100'
+  }`;
+  const toggleClass = (isActive: boolean) => `px-3 py-1 rounded-lg text-xs transition-colors ${
+    isActive
+      ? 'bg-cyan-500 text-white'
+      : isDarkMode ? 'text-zinc-300 hover:bg-zinc-800' : 'text-stone-600 hover:bg-stone-100'
+  }`;
+
+  return (
+    <Dialog
+      labelledBy="conversion-history-title"
+      initialFocusRef={closeButtonRef}
+      onClose={onClose}
+      className={`w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-3xl shadow-2xl p-6 border ${
+        isDarkMode ? 'bg-zinc-900 border-zinc-800 text-zinc-100' : 'bg-white border-stone-200 text-stone-800'
+      }`}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h2 id="conversion-history-title" className="text-2xl font-bold">Átváltási napló</h2>
+        <button
+          ref={closeButtonRef}
+          type="button"
+          onClick={onClose}
+          aria-label="Átváltási napló bezárása"
+          className={`p-2 rounded-xl border transition-colors ${
+            isDarkMode
+              ? 'bg-zinc-800 border-zinc-700 hover:bg-zinc-700 text-zinc-300'
+              : 'bg-stone-100 border-stone-300 hover:bg-stone-200 text-stone-600'
+          }`}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <p className={`text-xs mb-4 ${mutedText}`}>
+        Minden átváltás a használt árfolyammal együtt mentődik ebben a böngészőben. A csillagozott tételek törléskor is megmaradnak.
+      </p>
+
+      <div className="flex gap-2 mb-3">
+        <label htmlFor="history-search" className="sr-only">Keresés</label>
+        <input
+          id="history-search"
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Keresés, pl. EUR vagy 1 250"
+          className={`${fieldClass} flex-1 min-w-0`}
+        />
+        <button
+          type="button"
+          onClick={() => setStarredOnly((current) => !current)}
+          aria-pressed={starredOnly}
+          aria-label="Csak a csillagozottak"
+          title="Csak a csillagozottak"
+          className={`${iconButtonClass} ${starredOnly ? (isDarkMode ? 'text-amber-400' : 'text-amber-600') : ''}`}
+        >
+          <Star className="w-4 h-4" fill={starredOnly ? 'currentColor' : 'none'} />
+        </button>
+      </div>
+      <div className="flex items-center gap-2 mb-4">
+        <span className={`text-xs ${mutedText}`}>Újraszámolás:</span>
+        <div role="group" aria-label="Árfolyam az újraszámoláshoz" className="flex gap-1">
+          <button
+            type="button"
+            onClick={() => setRateChoice('original')}
+            aria-pressed={rateChoice === 'original'}
+            className={toggleClass(rateChoice === 'original')}
+          >
+            Eredeti árfolyamon
+          </button>
+          <button
+            type="button"
+            onClick={() => setRateChoice('current')}
+            aria-pressed={rateChoice === 'current'}
+            disabled={!rates}
+            className={`${toggleClass(rateChoice === 'current')} disabled:opacity-50`}
+          >
+            Mai árfolyamon
+          </button>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className={`text-sm text-center py-4 ${mutedText}`}>
+          {entries.length === 0 ? 'Még nincs mentett átváltás.' : 'Nincs a keresésnek megfelelő tétel.'}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {visible.map((entry) => {
+            const results = rateChoice === 'current' && rates
+              ? rerunConversion(entry, rates.quotes)
+              : rerunConversion(entry, entry.quotes);
+            return (
+              <li
+                key={entry.id}
+                className={`p-3 rounded-2xl border ${
+                  isDarkMode ? 'bg-zinc-800/50 border-zinc-700/50' : 'bg-stone-50 border-stone-200'
+                }`}
+              >
+                <div className="flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium">
+                      {formatSource(entry)}
+                      {entry.input && entry.input !== entry.amount && (
+                        <span className={`font-normal text-xs ${mutedText}`}> ({entry.input})</span>
+                      )}
+                    </div>
+                    <div className={`text-xs ${mutedText}`}>
+                      {formatTime(entry.ts)} · {getProviderName(entry.provider)}
+                      {entry.rateDate && ` · ${entry.rateDate}`}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => toggleStar(entry.id)}
+                    aria-pressed={entry.starred}
+                    aria-label={entry.starred ? 'Csillag levétele' : 'Csillagozás'}
+                    className={`${iconButtonClass} ${entry.starred ? (isDarkMode ? 'text-amber-400' : 'text-amber-600') : ''}`}
+                  >
+                    <Star className="w-4 h-4" fill={entry.starred ? 'currentColor' : 'none'} />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onLoad(entry)}
+                    aria-label="Betöltés az átváltóba"
+                    title="Betöltés az átváltóba"
+                    className={iconButtonClass}
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onChange(entries.filter((item) => item.id !== entry.id))}
+                    aria-label="Tétel törlése"
+                    className={iconButtonClass}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <ul className="mt-2 grid grid-cols-2 gap-x-4 gap-y-0.5 text-sm">
+                  {entry.results.map((result, index) => {
+                    const money = results[index];
+                    return (
+                      <li key={result.currency} className="flex justify-between gap-2">
+                        <span className={mutedText}>{result.currency}</span>
+                        <span>{money ? formatMoney(money) : 'nincs árfolyam'}</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="mt-4 grid grid-cols-2 gap-2">
+        <button
+          type="button"
+          onClick={() => handleExport('csv')}
+          disabled={visible.length === 0}
+          className="px-4 py-2 rounded-xl text-sm font-medium bg-cyan-500 text-white hover:bg-cyan-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed inline-flex items-center justify-center gap-2"
+        >
+          <Download className="w-4 h-4" />
+          CSV
+        </button>
+        <button
+          type="button"
+          onClick={() => handleExport('json')}
+          disabled={visible.length === 0}
+          className="px-4 py-2 rounded-xl text-sm font-medium bg-cyan-500 text-white hover:bg-cyan-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed inline-flex items-center justify-center gap-2"
+        >
+          <Download className="w-4 h-4" />
+          JSON
+        </button>
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange(entries.filter((entry) => entry.starred))}
+        disabled={!hasUnstarred}
+        className={`mt-2 w-full px-4 py-2 rounded-xl text-sm border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+          isDarkMode ? 'border-zinc-700 text-zinc-300 hover:bg-zinc-800' : 'border-stone-300 text-stone-600 hover:bg-stone-100'
+        }`}
+      >
+        Napló törlése (a csillagozottak kivételével)
+      </button>
+    </Dialog>
+  );
+}
@@ -0,0 +1,258 @@
+import { useState, useEffect, useRef } from 'react';
+import { X, ShieldAlert, ShieldCheck, Trash2 } from 'lucide-react';
+import Dialog from './Dialog';
+import { Currency, getCurrencySymbol } from './currencies';
+import { ExchangeRates } from './rateProviders';
+import { ConversionProfile, isWeekend } from './conversionProfiles';
+import { DccCheck, evaluateDcc, loadDccHistory, saveDccHistory } from './dccCheck';
+import { getLocaleNumberAmbiguity, parseLocaleNumber } from './localeNumber';
+
+interface DccCheckerProps {
+  rates: ExchangeRates | null;
+  // Currencies the merchant may price in.
+  currencies: Currency[];
+  // Card-issuer profiles; the alternative to accepting DCC.
+  profiles: ConversionProfile[];
+  defaultProfileId: string | null;
+  isDarkMode: boolean;
+  onClose: () => void;
+}
+
+const formatNumber = (value: number, digits = 2) =>
+  new Intl.NumberFormat('hu-HU', { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(value);
+
+const formatTime = (ts: number) =>
+  new Intl.DateTimeFormat('hu-HU', { dateStyle: 'short', timeStyle: 'short' }).format(ts);
+
+export default function DccChecker({
+  rates,
+  currencies,
+  profiles,
+  defaultProfileId,
+  isDarkMode,
+  onClose,
+}: DccCheckerProps) {
+  const [foreignAmount, setForeignAmount] = useState('');
+  const [foreignCurrency, setForeignCurrency] = useState<Currency>(currencies[0] ?? 'EUR');
+  const [homeAmount, setHomeAmount] = useState('');
+  const [profileId, setProfileId] = useState<string>(defaultProfileId ?? '');
+  const [history, setHistory] = useState<DccCheck[]>(() => loadDccHistory());
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    saveDccHistory(history);
+  }, [history]);
+
+  const homeCurrency = rates?.base ?? 'HUF';
+  const profile = profiles.find((item) => item.id === profileId) ?? null;
+  const cardMarkupPercent = profile
+    ? profile.markupPercent + (isWeekend(new Date()) ? profile.weekendSurchargePercent : 0)
+    : 0;
+  const check = rates
+    ? evaluateDcc(
+      parseLocaleNumber(foreignAmount),
+      foreignCurrency,
+      parseLocaleNumber(homeAmount),
+      homeCurrency,
+      rates.rates,
+      cardMarkupPercent
+    )
+    : null;
+  // `1.082` could be either amount; ask for a decimal comma instead of guessing.
+  const ambiguity = getLocaleNumberAmbiguity(foreignAmount) ?? getLocaleNumberAmbiguity(homeAmount);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!check) return;
+    setHistory((current) => [check, ...current]);
+    setForeignAmount('');
+    setHomeAmount('');
+  };
+
+  const fieldClass = `py-2 px-3 rounded-xl border text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent ${
+    isDarkMode ? 'bg-zinc-800/70 border-zinc-700 text-zinc-100' : 'bg-stone-50 border-stone-300 text-stone-800'
+  }`;
+  const mutedText = isDarkMode ? 'text-zinc-400' : 'text-stone-500';
+
+  return (
+    <Dialog
+      labelledBy="dcc-checker-title"
+      initialFocusRef={closeButtonRef}
+      onClose={onClose}
+      className={`w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-3xl shadow-2xl p-6 border ${
+        isDarkMode ? 'bg-zinc-900 border-zinc-800 text-zinc-100' : 'bg-white border-stone-200 text-stone-800'
+      }`}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h2 id="dcc-checker-title" className="text-2xl font-bold">DCC-ellenőrző</h2>
+        <button
+          ref={closeButtonRef}
+          type="button"
+          onClick={onClose}
+          aria-label="DCC-ellenőrző bezárása"
+          className={`p-2 rounded-xl border transition-colors ${
+            isDarkMode
+              ? 'bg-zinc-800 border-zinc-700 hover:bg-zinc-700 text-zinc-300'
+              : 'bg-stone-100 border-stone-300 hover:bg-stone-200 text-stone-600'
+          }`}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <p className={`text-xs mb-4 ${mutedText}`}>
+        Ha a terminál felajánlja, hogy {homeCurrency}-ban fizess, írd be mindkét összeget a kijelzőről.
+      </p>
+
+      {!rates ? (
+        <p className={`text-sm ${mutedText}`}>Árfolyamok betöltése…</p>
+      ) : (
+        <form onSubmit={handleSave} className="space-y-3 mb-6">
+          <div className="flex gap-2">
+            <label htmlFor="dcc-foreign-amount" className="sr-only">Ár a kereskedő devizájában</label>
+            <input
+              id="dcc-foreign-amount"
+              type="text"
+              inputMode="decimal"
+              value={foreignAmount}
+              onChange={(e) => setForeignAmount(e.target.value)}
+              placeholder="Ár, pl. 42,50"
+              className={`${fieldClass} flex-1 min-w-0`}
+            />
+            <label htmlFor="dcc-foreign-currency" className="sr-only">A kereskedő devizája</label>
+            <select
+              id="dcc-foreign-currency"
+              value={foreignCurrency}
+              onChange={(e) => setForeignCurrency(e.target.value)}
+              className={`${fieldClass} w-24`}
+            >
+              {currencies.map((code) => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2 items-center">
+            <label htmlFor="dcc-home-amount" className="sr-only">Felajánlott összeg ({homeCurrency})</label>
+            <input
+              id="dcc-home-amount"
+              type="text"
+              inputMode="decimal"
+              value={homeAmount}
+              onChange={(e) => setHomeAmount(e.target.value)}
+              placeholder={`Felajánlott összeg (${homeCurrency})`}
+              className={`${fieldClass} flex-1 min-w-0`}
+            />
+            <span className={`w-24 text-sm text-center ${mutedText}`}>{homeCurrency}</span>
+          </div>
+          <label className={`block text-xs ${mutedText}`}>
+            Ha elutasítod, a kártyád így vált:
+            <select
+              value={profileId}
+              onChange={(e) => setProfileId(e.target.value)}
+              className={`${fieldClass} mt-1 w-full`}
+            >
+              <option value="">középárfolyamon (díj nélkül)</option>
+              {profiles.map((item) => (
+                <option key={item.id} value={item.id}>{item.name} ({formatNumber(item.markupPercent)}%)</option>
+              ))}
+            </select>
+          </label>
+
+          {ambiguity && (
+            <p className={`text-xs ${isDarkMode ? 'text-amber-400' : 'text-amber-700'}`}>{ambiguity}</p>
+          )}
+
+          {check && (
+            <div
+              role="status"
+              aria-live="polite"
+              className={`p-4 rounded-2xl border ${
+                check.recommendation === 'decline'
+                  ? (isDarkMode ? 'bg-rose-950/30 border-rose-900/50 text-rose-200' : 'bg-rose-50 border-rose-200 text-rose-800')
+                  : (isDarkMode ? 'bg-emerald-950/30 border-emerald-900/50 text-emerald-200' : 'bg-emerald-50 border-emerald-200 text-emerald-800')
+              }`}
+            >
+              <div className="flex items-center gap-2 text-lg font-bold">
+                {check.recommendation === 'decline'
+                  ? <ShieldAlert className="w-6 h-6 flex-shrink-0" />
+                  : <ShieldCheck className="w-6 h-6 flex-shrink-0" />}
+                {check.recommendation === 'decline'
+                  ? `Utasítsd el: fizess ${check.foreignCurrency}-ban!`
+                  : `Elfogadható a ${homeCurrency}-os fizetés`}
+              </div>
+              <dl className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                <dt>Terminál árfolyama</dt>
+                <dd className="text-right">{formatNumber(check.impliedRate, 4)}</dd>
+                <dt>Középárfolyam</dt>
+                <dd className="text-right">{formatNumber(check.midRate, 4)}</dd>
+                <dt>Felár</dt>
+                <dd className="text-right font-semibold">
+                  {check.markupPercent > 0 ? '+' : ''}{formatNumber(check.markupPercent)}%
+                </dd>
+                <dt>Különbség a kártyás váltáshoz képest</dt>
+                <dd className="text-right">
+                  {formatNumber(check.homeAmount - check.foreignAmount * check.midRate * (1 + check.cardMarkupPercent / 100))}{' '}
+                  {getCurrencySymbol(homeCurrency)}
+                </dd>
+              </dl>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={!check}
+            className="w-full px-4 py-2 rounded-xl text-sm font-medium bg-cyan-500 text-white hover:bg-cyan-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Mentés az előzményekbe
+          </button>
+        </form>
+      )}
+
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold">Korábbi ellenőrzések</h3>
+        {history.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setHistory([])}
+            className={`text-xs underline ${mutedText}`}
+          >
+            Törlés
+          </button>
+        )}
+      </div>
+      {history.length === 0 ? (
+        <p className={`text-sm text-center ${mutedText}`}>Még nincs mentett ellenőrzés.</p>
+      ) : (
+        <ul className="space-y-2">
+          {history.map((item) => (
+            <li
+              key={item.id}
+              className={`p-3 rounded-2xl border flex items-center gap-2 text-sm ${
+                isDarkMode ? 'bg-zinc-800/50 border-zinc-700/50' : 'bg-stone-50 border-stone-200'
+              }`}
+            >
+              {item.recommendation === 'decline'
+                ? <ShieldAlert className="w-4 h-4 flex-shrink-0 text-rose-500" aria-label="Elutasítandó" />
+                : <ShieldCheck className="w-4 h-4 flex-shrink-0 text-emerald-500" aria-label="Elfogadható" />}
+              <div className="flex-1 min-w-0">
+                {formatNumber(item.foreignAmount)} {item.foreignCurrency} → {formatNumber(item.homeAmount)} {item.homeCurrency}
+                <span className={`block text-xs ${mutedText}`}>
+                  {formatTime(item.ts)} · felár {item.markupPercent > 0 ? '+' : ''}{formatNumber(item.markupPercent)}%
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={() => setHistory((current) => current.filter((entry) => entry.id !== item.id))}
+                aria-label="Ellenőrzés törlése"
+                className={`p-2 rounded-lg transition-colors ${
+                  isDarkMode ? 'text-zinc-400 hover:text-cyan-400 hover:bg-zinc-800' : 'text-stone-500 hover:text-cyan-600 hover:bg-stone-100'
+                }`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Dialog>
+  );
+}
@@ -0,0 +1,73 @@
+import { ReactNode, RefObject, useEffect, useRef } from 'react';
+
+interface DialogProps {
+  // Id of the element that names the dialog, usually its heading.
+  labelledBy: string;
+  // Focused on open; focus returns to where it was on close.
+  initialFocusRef: RefObject<HTMLElement>;
+  // Classes of the dialog panel.
+  className: string;
+  onClose: () => void;
+  children: ReactNode;
+}
+
+const FOCUSABLE = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(',');
+
+// Modal over a dimmed backdrop. A click on the backdrop or Escape closes it,
+// and Tab cycles within it.
+export default function Dialog({ labelledBy, initialFocusRef, className, onClose, children }: DialogProps) {
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    initialFocusRef.current?.focus();
+    return () => previouslyFocused?.focus();
+  }, [initialFocusRef]);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+        return;
+      }
+      const dialog = dialogRef.current;
+      if (event.key !== 'Tab' || !dialog) return;
+      const focusable = Array.from(dialog.querySelectorAll<HTMLElement>(FOCUSABLE));
+      if (focusable.length === 0) return;
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      const active = document.activeElement;
+      if (!dialog.contains(active) || (event.shiftKey ? active === first : active === last)) {
+        event.preventDefault();
+        (event.shiftKey ? last : first).focus();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={labelledBy}
+        onClick={(e) => e.stopPropagation()}
+        className={className}
+      >
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+import { useState, useEffect, useRef } from 'react';
+import { X, Trash2, Download } from 'lucide-react';
+import Dialog from './Dialog';
+import { Currency, getCurrencySymbol } from './currencies';
+import { ExchangeRates } from './rateProviders';
+import { evaluateAmountExpression } from './amountExpression';
+import { Decimal, RateQuotes, ZERO, compareDecimal, createMoney, decimalToString } from './money';
+import { RoundingMode, roundAmount } from './rounding';
+import { loadRatesOnDate, toLocalIsoDate } from './ratesOnDate';
+import { downloadCsv } from './exportFile';
+import {
+  EXPENSE_CATEGORIES,
+  Expense,
+  ExpenseCategory,
+  ExpenseTotal,
+  deleteExpense,
+  expensesToCsvRows,
+  getCategoryLabel,
+  loadExpenses,
+  saveExpense,
+  totalExpensesBy,
+  valueExpenses,
+} from './expenses';
+import { createId } from './ids';
+
+interface ExpenseTrackerProps {
+  // Live rates; their base is the home currency everything is totalled in.
+  rates: ExchangeRates | null;
+  // Offered first in the currency list; every quoted code follows.
+  currencies: Currency[];
+  roundingMode: RoundingMode;
+  isDarkMode: boolean;
+  onClose: () => void;
+}
+
+interface ExpenseDraft {
+  date: string;
+  category: ExpenseCategory;
+  amount: string;
+  currency: Currency;
+  note: string;
+}
+
+const formatDay = (date: string) => new Date(`${date}T12:00:00`).toLocaleDateString('hu-HU');
+
+export default function ExpenseTracker({ rates, currencies, roundingMode, isDarkMode, onClose }: ExpenseTrackerProps) {
+  const today = toLocalIsoDate(Date.now());
+  const home = rates?.base ?? 'HUF';
+  const emptyDraft = (): ExpenseDraft => ({
+    date: today,
+    category: 'food',
+    amount: '',
+    currency: currencies.find((code) => code !== home) ?? 'EUR',
+    note: '',
+  });
+  const [draft, setDraft] = useState<ExpenseDraft>(emptyDraft);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Each day's quotes, keyed by date; undefined while loading.
+  const [dayQuotes, setDayQuotes] = useState<Record<string, RateQuotes | undefined>>({});
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    loadExpenses()
+      .then(setExpenses)
+      .catch((err) => {
+        console.warn('Kiadások nem tölthetők be:', err);
+        setLoadError('A kiadások nem tölthetők be; a böngésző nem engedi a helyi tárolást.');
+      });
+  }, []);
+
+  // Past days are resolved once each; loadRatesOnDate caches them.
+  const pastDates = [...new Set(expenses.map((expense) => expense.date))].filter((date) => date < today);
+  const pastDatesKey = pastDates.join(',');
+  useEffect(() => {
+    let cancelled = false;
+    pastDatesKey.split(',').filter(Boolean).forEach((date) => {
+      loadRatesOnDate(date, home)
+        .then((result) => {
+          if (!cancelled) setDayQuotes((current) => ({ ...current, [date]: result.rates.quotes }));
+        })
+        .catch((err) => console.warn('Múltbeli árfolyam nem elérhető:', err));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pastDatesKey, home]);
+
+  const values = rates
+    ? valueExpenses(expenses, home, rates.quotes, { ...dayQuotes, [today]: rates.quotes })
+    : [];
+  const byCategory = totalExpensesBy(values, (expense) => expense.category);
+  const byDay = totalExpensesBy(values, (expense) => expense.date);
+  const grandTotal = totalExpensesBy(values, () => 'all')[0];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = evaluateAmountExpression(draft.amount);
+    if (!result?.ok || compareDecimal(result.exact, ZERO) <= 0) {
+      setFormError('Adj meg egy pozitív összeget.');
+      return;
+    }
+    if (!draft.date || draft.date > today) {
+      setFormError('A dátum nem lehet a jövőben.');
+      return;
+    }
+    setFormError(null);
+    const expense: Expense = {
+      id: createId(),
+      date: draft.date,
+      category: draft.category,
+      amount: decimalToString(result.exact),
+      currency: draft.currency,
+      note: draft.note.trim(),
+      createdAt: Date.now(),
+    };
+    try {
+      await saveExpense(expense);
+      setExpenses(await loadExpenses());
+      setDraft((current) => ({ ...emptyDraft(), date: current.date, currency: current.currency }));
+    } catch (err) {
+      console.warn('Kiadás mentése sikertelen:', err);
+      setFormError('A kiadást nem sikerült menteni.');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteExpense(id);
+      setExpenses((current) => current.filter((expense) => expense.id !== id));
+    } catch (err) {
+      console.warn('Kiadás törlése sikertelen:', err);
+    }
+  };
+
+  const formatHome = (amount: Decimal) => {
+    const rounded = roundAmount(createMoney(amount, home), roundingMode);
+    return `${rounded.isRounded ? '≈ ' : ''}${rounded.text} ${getCurrencySymbol(home)}`;
+  };
+
+  const codes = [...new Set([...currencies, ...Object.keys(rates?.rates ?? {}).sort()])];
+  const fieldClass = `py-2 px-3 rounded-xl border text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent ${
+    isDarkMode ? 'bg-zinc-800/70 border-zinc-700 text-zinc-100' : 'bg-stone-50 border-stone-300 text-stone-800'
+  }`;
+  const mutedText = isDarkMode ? 'text-zinc-400' : 'text-stone-500';
+  const panelClass = `p-3 rounded-2xl border ${
+    isDarkMode ? 'bg-zinc-800/50 border-zinc-700/50' : 'bg-stone-50 border-stone-200'
+  }`;
+
+  const renderTotals = (title: string, totals: ExpenseTotal[], labelOf: (key: string) => string) => (
+    <section className={panelClass}>
+      <h3 className="text-sm font-semibold mb-2">{title}</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className={`text-xs ${mutedText}`}>
+            <th className="text-left font-medium"></th>
+            <th className="text-right font-medium">Napi árfolyamon</th>
+            <th className="text-right font-medium">Mai árfolyamon</th>
+          </tr>
+        </thead>
+        <tbody>
+          {totals.map((total) => (
+            <tr key={total.key}>
+              <th scope="row" className="text-left font-normal py-0.5">{labelOf(total.key)}</th>
+              <td className="text-right">{formatHome(total.atDayRate)}{total.incomplete ? '*' : ''}</td>
+              <td className="text-right">{formatHome(total.atToday)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+
+  return (
+    <Dialog
+      labelledBy="expense-tracker-title"
+      initialFocusRef={closeButtonRef}
+      onClose={onClose}
+      className={`w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-3xl shadow-2xl p-6 border ${
+        isDarkMode ? 'bg-zinc-900 border-zinc-800 text-zinc-100' : 'bg-white border-stone-200 text-stone-800'
+      }`}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h2 id="expense-tracker-title" className="text-2xl font-bold">Úti kiadások</h2>
+        <button
+          ref={closeButtonRef}
+          type="button"
+          onClick={onClose}
+          aria-label="Úti kiadások bezárása"
+          className={`p-2 rounded-xl border transition-colors ${
+            isDarkMode
+              ? 'bg-zinc-800 border-zinc-700 hover:bg-zinc-700 text-zinc-300'
+              : 'bg-stone-100 border-stone-300 hover:bg-stone-200 text-stone-600'
+          }`}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <p className={`text-xs mb-4 ${mutedText}`}>
+        A kiadások csak ebben a böngészőben tárolódnak. Mindegyiket a saját napi és a mai árfolyamon is átszámoljuk ({home}).
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-2 mb-6">
+        <div className="grid grid-cols-2 gap-2">
+          <label className={`block text-xs ${mutedText}`}>
+            Dátum
+            <input
+              type="date"
+              value={draft.date}
+              max={today}
+              onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+              className={`${fieldClass} mt-1 w-full`}
+            />
+          </label>
+          <label className={`block text-xs ${mutedText}`}>
+            Kategória
+            <select
+              value={draft.category}
+              onChange={(e) => setDraft({ ...draft, category: e.target.value as ExpenseCategory })}
+              className={`${fieldClass} mt-1 w-full`}
+            >
+              {EXPENSE_CATEGORIES.map((category) => (
+                <option key={category.id} value={category.id}>{category.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="flex gap-2">
+          <label htmlFor="expense-amount" className="sr-only">Összeg</label>
+          <input
+            id="expense-amount"
+            type="text"
+            inputMode="decimal"
+            value={draft.amount}
+            onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+            placeholder="Összeg, pl. 42,50"
+            maxLength={60}
+            className={`${fieldClass} flex-1 min-w-0`}
+          />
+          <label htmlFor="expense-currency" className="sr-only">Deviza</label>
+          <select
+            id="expense-currency"
+            value={draft.currency}
+            onChange={(e) => setDraft({ ...draft, currency: e.target.value })}
+            className={`${fieldClass} w-24`}
+          >
+            {codes.map((code) => (
+              <option key={code} value={code}>{code}</option>
+            ))}
+          </select>
+        </div>
+        <label htmlFor="expense-note" className="sr-only">Megjegyzés</label>
+        <input
+          id="expense-note"
+          type="text"
+          value={draft.note}
+          onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+          placeholder="Megjegyzés (nem kötelező)"
+          maxLength={120}
+          className={`${fieldClass} w-full`}
+        />
+        {formError && (
+          <p role="alert" className={`text-xs ${isDarkMode ? 'text-rose-400' : 'text-rose-600'}`}>{formError}</p>
+        )}
+        <button
+          type="submit"
+          disabled={Boolean(loadError)}
+          className="w-full px-4 py-2 rounded-xl text-sm font-medium bg-cyan-500 text-white hover:bg-cyan-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Kiadás rögzítése
+        </button>
+      </form>
+
+      {loadError ? (
+        <p className={`text-sm ${isDarkMode ? 'text-rose-400' : 'text-rose-600'}`}>{loadError}</p>
+      ) : expenses.length === 0 ? (
+        <p className={`text-sm text-center ${mutedText}`}>Még nincs rögzített kiadás.</p>
+      ) : !rates ? (
+        <p className={`text-sm ${mutedText}`}>Árfolyamok betöltése…</p>
+      ) : (
+        <div className="space-y-3">
+          {grandTotal && (
+            <div className="flex items-baseline justify-between gap-2">
+              <span className="text-sm font-medium">Összesen</span>
+              <span className="text-right">
+                <span className="text-2xl font-bold">{formatHome(grandTotal.atDayRate)}</span>
+                <span className={`block text-xs ${mutedText}`}>ma {formatHome(grandTotal.atToday)} lenne</span>
+              </span>
+            </div>
+          )}
+          {renderTotals('Kategóriánként', byCategory, (key) => getCategoryLabel(key as ExpenseCategory))}
+          {renderTotals('Naponként', byDay, formatDay)}
+          {[...byCategory, ...byDay].some((total) => total.incomplete) && (
+            <p className={`text-xs ${mutedText}`}>* Néhány nap árfolyama még töltődik vagy nem érhető el.</p>
+          )}
+
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold">Tételek</h3>
+            <button
+              type="button"
+              onClick={() => downloadCsv(`kiadasok-${today}.csv`, expensesToCsvRows(values, home))}
+              className={`text-xs inline-flex items-center gap-1 underline ${mutedText}`}
+            >
+              <Download className="w-3.5 h-3.5" />
+              CSV export
+            </button>
+          </div>
+          <ul className="space-y-2">
+            {values.map(({ expense, atDayRate, atToday }) => (
+              <li key={expense.id} className={`${panelClass} flex items-center gap-2 text-sm`}>
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium">
+                    {expense.amount.replace('.', ',')} {expense.currency}
+                    <span className={`font-normal ${mutedText}`}> · {getCategoryLabel(expense.category)}</span>
+                  </div>
+                  <div className={`text-xs ${mutedText}`}>
+                    {formatDay(expense.date)}
+                    {expense.note && ` · ${expense.note}`}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div>{atDayRate ? formatHome(atDayRate.amount) : '…'}</div>
+                  <div className={`text-xs ${mutedText}`}>ma: {atToday ? formatHome(atToday.amount) : '–'}</div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(expense.id)}
+                  aria-label="Kiadás törlése"
+                  className={`p-2 rounded-lg transition-colors ${
+                    isDarkMode ? 'text-zinc-400 hover:text-cyan-400 hover:bg-zinc-800' : 'text-stone-500 hover:text-cyan-600 hover:bg-stone-100'
+                  }`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Dialog>
+  );
+}
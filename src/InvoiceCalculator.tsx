@@ -0,0 +1,235 @@
+import { useState, useEffect, useRef } from 'react';
+import { X, Download } from 'lucide-react';
+import Dialog from './Dialog';
+import { Currency, getCurrencyInfo, getCurrencySymbol } from './currencies';
+import { ExchangeRates } from './rateProviders';
+import { evaluateAmountExpression } from './amountExpression';
+import { Money, ZERO, compareDecimal, formatDecimal } from './money';
+import { VAT_RATES, INVOICE_RATE_PROVIDERS, VatRateId, calculateInvoice, invoiceToCsvRows } from './invoice';
+import { loadRatesOnDate, toLocalIsoDate } from './ratesOnDate';
+import { downloadCsv } from './exportFile';
+
+interface InvoiceCalculatorProps {
+  // Live rates, used when the fulfilment date is today and they come from an
+  // official source.
+  rates: ExchangeRates | null;
+  // Currencies the invoice may be issued in.
+  currencies: Currency[];
+  isDarkMode: boolean;
+  onClose: () => void;
+}
+
+const formatMoney = (money: Money) => {
+  const { decimals } = getCurrencyInfo(money.currency);
+  const digits = money.currency === 'HUF' ? 0 : decimals;
+  return `${formatDecimal(money.amount, digits, digits)} ${getCurrencySymbol(money.currency)}`;
+};
+
+export default function InvoiceCalculator({ rates, currencies, isDarkMode, onClose }: InvoiceCalculatorProps) {
+  const today = toLocalIsoDate(Date.now());
+  const [netInput, setNetInput] = useState('');
+  const [currency, setCurrency] = useState<Currency>(currencies.includes('EUR') ? 'EUR' : currencies[0] ?? 'EUR');
+  const [vatRateId, setVatRateId] = useState<VatRateId>('27');
+  const [fulfilmentDate, setFulfilmentDate] = useState(today);
+  const [officialRates, setOfficialRates] = useState<ExchangeRates | null>(null);
+  const [rateError, setRateError] = useState<string | null>(null);
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  const isCurrent = fulfilmentDate >= today;
+  const liveIsOfficial = isCurrent && rates !== null && INVOICE_RATE_PROVIDERS.includes(rates.provider);
+
+  // The VAT needs an MNB or ECB rate for the fulfilment date, like the date
+  // picker on the cards but never from another source's snapshot.
+  useEffect(() => {
+    setOfficialRates(null);
+    setRateError(null);
+    if (liveIsOfficial) return;
+    let cancelled = false;
+    loadRatesOnDate(isCurrent ? today : fulfilmentDate, 'HUF', INVOICE_RATE_PROVIDERS)
+      .then((result) => {
+        if (!cancelled) setOfficialRates(result.rates);
+      })
+      .catch((err) => {
+        console.warn('Hivatalos árfolyam nem elérhető:', err);
+        if (!cancelled) setRateError('Erre a napra nem sikerült hivatalos (MNB vagy EKB) árfolyamot betölteni, így az ÁFA nem számolható.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fulfilmentDate, today, isCurrent, liveIsOfficial]);
+
+  // Never the live market rates: without an official rate there is no VAT.
+  const invoiceRates = liveIsOfficial ? rates : officialRates;
+  const netResult = evaluateAmountExpression(netInput);
+  const net = netResult?.ok && compareDecimal(netResult.exact, ZERO) > 0 ? netResult.exact : null;
+  const invoice = net && invoiceRates
+    ? calculateInvoice(net, currency, vatRateId, invoiceRates, fulfilmentDate)
+    : null;
+
+  const handleExport = () => {
+    if (!invoice) return;
+    downloadCsv(`szamla-${invoice.fulfilmentDate}-${invoice.net.currency}.csv`, invoiceToCsvRows(invoice));
+  };
+
+  const fieldClass = `py-2 px-3 rounded-xl border text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent ${
+    isDarkMode ? 'bg-zinc-800/70 border-zinc-700 text-zinc-100' : 'bg-stone-50 border-stone-300 text-stone-800'
+  }`;
+  const mutedText = isDarkMode ? 'text-zinc-400' : 'text-stone-500';
+
+  return (
+    <Dialog
+      labelledBy="invoice-calculator-title"
+      initialFocusRef={closeButtonRef}
+      onClose={onClose}
+      className={`w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-3xl shadow-2xl p-6 border ${
+        isDarkMode ? 'bg-zinc-900 border-zinc-800 text-zinc-100' : 'bg-white border-stone-200 text-stone-800'
+      }`}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h2 id="invoice-calculator-title" className="text-2xl font-bold">Számla és ÁFA</h2>
+        <button
+          ref={closeButtonRef}
+          type="button"
+          onClick={onClose}
+          aria-label="Számlakalkulátor bezárása"
+          className={`p-2 rounded-xl border transition-colors ${
+            isDarkMode
+              ? 'bg-zinc-800 border-zinc-700 hover:bg-zinc-700 text-zinc-300'
+              : 'bg-stone-100 border-stone-300 hover:bg-stone-200 text-stone-600'
+          }`}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <p className={`text-xs mb-4 ${mutedText}`}>
+        Devizás számla ÁFA-ja forintban, a teljesítés napján érvényes árfolyamon.
+      </p>
+
+      <div className="space-y-3 mb-4">
+        <div className="flex gap-2">
+          <label htmlFor="invoice-net" className="sr-only">Nettó összeg</label>
+          <input
+            id="invoice-net"
+            type="text"
+            inputMode="decimal"
+            value={netInput}
+            onChange={(e) => setNetInput(e.target.value)}
+            placeholder="Nettó összeg, pl. 1 250,00"
+            aria-invalid={Boolean(netResult && !net)}
+            className={`${fieldClass} flex-1 min-w-0`}
+          />
+          <label htmlFor="invoice-currency" className="sr-only">A számla devizája</label>
+          <select
+            id="invoice-currency"
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+            className={`${fieldClass} w-24`}
+          >
+            {currencies.map((code) => (
+              <option key={code} value={code}>{code}</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <label className={`block text-xs ${mutedText}`}>
+            ÁFA-kulcs
+            <select
+              value={vatRateId}
+              onChange={(e) => setVatRateId(e.target.value as VatRateId)}
+              className={`${fieldClass} mt-1 w-full`}
+            >
+              {VAT_RATES.map((rate) => (
+                <option key={rate.id} value={rate.id}>{rate.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className={`block text-xs ${mutedText}`}>
+            Teljesítés dátuma
+            <input
+              type="date"
+              value={fulfilmentDate}
+              min="1999-01-04"
+              max={today}
+              onChange={(e) => setFulfilmentDate(e.target.value || today)}
+              className={`${fieldClass} mt-1 w-full`}
+            />
+          </label>
+        </div>
+      </div>
+
+      {rateError ? (
+        <p className={`text-sm ${isDarkMode ? 'text-rose-400' : 'text-rose-600'}`}>{rateError}</p>
+      ) : !invoiceRates ? (
+        <p className={`text-sm ${mutedText}`}>Árfolyamok betöltése…</p>
+      ) : !invoice ? (
+        <p className={`text-sm text-center ${mutedText}`}>Add meg a nettó összeget.</p>
+      ) : (
+        <div
+          role="status"
+          aria-live="polite"
+          className={`p-4 rounded-2xl border ${
+            isDarkMode ? 'bg-zinc-800/50 border-zinc-700/50' : 'bg-stone-50 border-stone-200'
+          }`}
+        >
+          <table className="w-full text-sm">
+            <thead>
+              <tr className={mutedText}>
+                <th className="text-left font-medium pb-1"></th>
+                <th className="text-right font-medium pb-1">{invoice.net.currency}</th>
+                <th className="text-right font-medium pb-1">{invoice.homeNet.currency}</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <th scope="row" className="text-left font-normal py-0.5">Nettó</th>
+                <td className="text-right">{formatMoney(invoice.net)}</td>
+                <td className="text-right">{formatMoney(invoice.homeNet)}</td>
+              </tr>
+              <tr>
+                <th scope="row" className="text-left font-normal py-0.5">ÁFA ({invoice.vatRate.label})</th>
+                <td className="text-right">{formatMoney(invoice.vat)}</td>
+                <td className="text-right">{formatMoney(invoice.homeVat)}</td>
+              </tr>
+              <tr className="font-semibold">
+                <th scope="row" className="text-left py-0.5">Bruttó</th>
+                <td className="text-right">{formatMoney(invoice.gross)}</td>
+                <td className="text-right">{formatMoney(invoice.homeGross)}</td>
+              </tr>
+            </tbody>
+          </table>
+          <dl className={`mt-3 grid grid-cols-2 gap-x-4 gap-y-1 text-xs ${mutedText}`}>
+            <dt>Árfolyam</dt>
+            <dd className="text-right">
+              1 {invoice.net.currency} = {formatDecimal(invoice.rate, 2, 6)} {invoice.homeNet.currency}
+            </dd>
+            <dt>Forrás</dt>
+            <dd className="text-right">{invoice.rateProvider}</dd>
+            <dt>Árfolyam dátuma</dt>
+            <dd className="text-right">{invoice.rateDate}</dd>
+            {invoice.vatRate.note && (
+              <>
+                <dt>Megjegyzés</dt>
+                <dd className="text-right">{invoice.vatRate.note}</dd>
+              </>
+            )}
+          </dl>
+          {invoice.rateDate !== invoice.fulfilmentDate && (
+            <p className={`mt-2 text-xs ${isDarkMode ? 'text-amber-400' : 'text-amber-700'}`}>
+              A teljesítés napjára nincs közzétett árfolyam; az utolsó előtte közzétettet használjuk.
+            </p>
+          )}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleExport}
+        disabled={!invoice}
+        className="mt-4 w-full px-4 py-2 rounded-xl text-sm font-medium bg-cyan-500 text-white hover:bg-cyan-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed inline-flex items-center justify-center gap-2"
+      >
+        <Download className="w-4 h-4" />
+        Exportálás (CSV)
+      </button>
+    </Dialog>
+  );
+}
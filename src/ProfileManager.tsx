@@ -0,0 +1,267 @@
+import { useState, useRef } from 'react';
+import { X, Pencil, Trash2 } from 'lucide-react';
+import Dialog from './Dialog';
+import { Currency } from './currencies';
+import { ConversionProfile } from './conversionProfiles';
+import { getLocaleNumberAmbiguity, parseLocaleNumber } from './localeNumber';
+import { formatInputNumber } from './money';
+import { createId } from './ids';
+
+interface ProfileManagerProps {
+  profiles: ConversionProfile[];
+  onChange: (profiles: ConversionProfile[]) => void;
+  currencies: Currency[];
+  isDarkMode: boolean;
+  onClose: () => void;
+}
+
+interface ProfileDraft {
+  id: string | null;
+  name: string;
+  markupPercent: string;
+  fixedFee: string;
+  feeCurrency: Currency;
+  weekendSurchargePercent: string;
+}
+
+const parseAmount = (value: string) => (value.trim() ? parseLocaleNumber(value) : 0);
+
+const formatPercent = (value: number) =>
+  new Intl.NumberFormat('hu-HU', { maximumFractionDigits: 2 }).format(value);
+
+const describeProfile = (profile: ConversionProfile) => {
+  const parts = [`${formatPercent(profile.markupPercent)}% árrés`];
+  if (profile.fixedFee > 0) parts.push(`${formatPercent(profile.fixedFee)} ${profile.feeCurrency} díj`);
+  if (profile.weekendSurchargePercent > 0) parts.push(`+${formatPercent(profile.weekendSurchargePercent)}% hétvégén`);
+  return parts.join(' · ');
+};
+
+export default function ProfileManager({
+  profiles,
+  onChange,
+  currencies,
+  isDarkMode,
+  onClose,
+}: ProfileManagerProps) {
+  const emptyDraft = (): ProfileDraft => ({
+    id: null,
+    name: '',
+    markupPercent: '',
+    fixedFee: '',
+    feeCurrency: currencies[0] ?? 'HUF',
+    weekendSurchargePercent: '',
+  });
+  const [draft, setDraft] = useState<ProfileDraft>(emptyDraft);
+  const [formError, setFormError] = useState<string | null>(null);
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = draft.name.trim();
+    const markupPercent = parseAmount(draft.markupPercent);
+    const fixedFee = parseAmount(draft.fixedFee);
+    const weekendSurchargePercent = parseAmount(draft.weekendSurchargePercent);
+    if (!name) {
+      setFormError('Adj nevet a profilnak.');
+      return;
+    }
+    if ([markupPercent, fixedFee, weekendSurchargePercent].some((value) => !Number.isFinite(value) || value < 0)) {
+      const ambiguity = [draft.markupPercent, draft.fixedFee, draft.weekendSurchargePercent]
+        .map((text) => getLocaleNumberAmbiguity(text))
+        .find(Boolean);
+      setFormError(ambiguity ?? 'Az árrés, a díj és a hétvégi felár csak nemnegatív szám lehet.');
+      return;
+    }
+    if (markupPercent + weekendSurchargePercent >= 100) {
+      setFormError('Az árrés és a hétvégi felár együtt 100% alatt legyen.');
+      return;
+    }
+    setFormError(null);
+
+    const profile: ConversionProfile = {
+      id: draft.id ?? createId(),
+      name,
+      markupPercent,
+      fixedFee,
+      feeCurrency: draft.feeCurrency,
+      weekendSurchargePercent,
+    };
+    onChange(draft.id
+      ? profiles.map((item) => (item.id === draft.id ? profile : item))
+      : [...profiles, profile]);
+    setDraft(emptyDraft());
+  };
+
+  const startEdit = (profile: ConversionProfile) => {
+    setDraft({
+      id: profile.id,
+      name: profile.name,
+      markupPercent: formatInputNumber(profile.markupPercent),
+      fixedFee: profile.fixedFee ? formatInputNumber(profile.fixedFee) : '',
+      feeCurrency: profile.feeCurrency,
+      weekendSurchargePercent: profile.weekendSurchargePercent ? formatInputNumber(profile.weekendSurchargePercent) : '',
+    });
+    setFormError(null);
+  };
+
+  const removeProfile = (id: string) => {
+    onChange(profiles.filter((profile) => profile.id !== id));
+    if (draft.id === id) setDraft(emptyDraft());
+  };
+
+  const fieldClass = `py-2 px-3 rounded-xl border text-sm focus:ring-2 focus:ring-cyan-500 focus:border-transparent ${
+    isDarkMode ? 'bg-zinc-800/70 border-zinc-700 text-zinc-100' : 'bg-stone-50 border-stone-300 text-stone-800'
+  }`;
+  const iconButtonClass = `p-2 rounded-lg transition-colors ${
+    isDarkMode ? 'text-zinc-400 hover:text-cyan-400 hover:bg-zinc-800' : 'text-stone-500 hover:text-cyan-600 hover:bg-stone-100'
+  }`;
+  const mutedText = isDarkMode ? 'text-zinc-400' : 'text-stone-500';
+
+  return (
+    <Dialog
+      labelledBy="profile-manager-title"
+      initialFocusRef={closeButtonRef}
+      onClose={onClose}
+      className={`w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-3xl shadow-2xl p-6 border ${
+        isDarkMode ? 'bg-zinc-900 border-zinc-800 text-zinc-100' : 'bg-white border-stone-200 text-stone-800'
+      }`}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h2 id="profile-manager-title" className="text-2xl font-bold">Váltási profilok</h2>
+        <button
+          ref={closeButtonRef}
+          type="button"
+          onClick={onClose}
+          aria-label="Profilok bezárása"
+          className={`p-2 rounded-xl border transition-colors ${
+            isDarkMode
+              ? 'bg-zinc-800 border-zinc-700 hover:bg-zinc-700 text-zinc-300'
+              : 'bg-stone-100 border-stone-300 hover:bg-stone-200 text-stone-600'
+          }`}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-3 mb-6">
+        <label htmlFor="profile-name" className="sr-only">Profil neve</label>
+        <input
+          id="profile-name"
+          type="text"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Név, pl. OTP bankkártya"
+          maxLength={40}
+          className={`${fieldClass} w-full`}
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <label className={`text-xs ${mutedText}`}>
+            Árrés (%)
+            <input
+              type="text"
+              inputMode="decimal"
+              value={draft.markupPercent}
+              onChange={(e) => setDraft({ ...draft, markupPercent: e.target.value })}
+              placeholder="0"
+              className={`${fieldClass} mt-1 w-full`}
+            />
+          </label>
+          <label className={`text-xs ${mutedText}`}>
+            Hétvégi felár (%)
+            <input
+              type="text"
+              inputMode="decimal"
+              value={draft.weekendSurchargePercent}
+              onChange={(e) => setDraft({ ...draft, weekendSurchargePercent: e.target.value })}
+              placeholder="0"
+              className={`${fieldClass} mt-1 w-full`}
+            />
+          </label>
+          <label className={`text-xs ${mutedText}`}>
+            Fix díj
+            <input
+              type="text"
+              inputMode="decimal"
+              value={draft.fixedFee}
+              onChange={(e) => setDraft({ ...draft, fixedFee: e.target.value })}
+              placeholder="0"
+              className={`${fieldClass} mt-1 w-full`}
+            />
+          </label>
+          <label className={`text-xs ${mutedText}`}>
+            Díj devizája
+            <select
+              value={draft.feeCurrency}
+              onChange={(e) => setDraft({ ...draft, feeCurrency: e.target.value })}
+              className={`${fieldClass} mt-1 w-full`}
+            >
+              {currencies.map((code) => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            className="flex-1 px-4 py-2 rounded-xl text-sm font-medium bg-cyan-500 text-white hover:bg-cyan-600 transition-colors"
+          >
+            {draft.id ? 'Mentés' : 'Hozzáadás'}
+          </button>
+          {draft.id && (
+            <button
+              type="button"
+              onClick={() => setDraft(emptyDraft())}
+              className={`px-3 py-2 rounded-xl text-sm border ${
+                isDarkMode ? 'border-zinc-700 text-zinc-300' : 'border-stone-300 text-stone-600'
+              }`}
+            >
+              Mégse
+            </button>
+          )}
+        </div>
+        {formError && (
+          <p role="alert" className={`text-xs ${isDarkMode ? 'text-rose-400' : 'text-rose-600'}`}>
+            {formError}
+          </p>
+        )}
+      </form>
+
+      {profiles.length === 0 ? (
+        <p className={`text-sm text-center ${mutedText}`}>Még nincs profil.</p>
+      ) : (
+        <ul className="space-y-2">
+          {profiles.map((profile) => (
+            <li
+              key={profile.id}
+              className={`p-3 rounded-2xl border flex items-center gap-2 ${
+                isDarkMode ? 'bg-zinc-800/50 border-zinc-700/50' : 'bg-stone-50 border-stone-200'
+              }`}
+            >
+              <div className="flex-1 min-w-0 text-sm">
+                {profile.name}
+                <span className={`block text-xs ${mutedText}`}>{describeProfile(profile)}</span>
+              </div>
+              <button
+                type="button"
+                onClick={() => startEdit(profile)}
+                aria-label={`${profile.name} szerkesztése`}
+                className={iconButtonClass}
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => removeProfile(profile.id)}
+                aria-label={`${profile.name} törlése`}
+                className={iconButtonClass}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Dialog>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { Trophy, ExternalLink } from 'lucide-react';
+import { Currency, getCurrencySymbol } from './currencies';
+import { ExchangeRates } from './rateProviders';
+import { compareTransferProviders } from './transferProviders';
+import { Decimal, ZERO, compareDecimal, formatDecimal, parseDecimal } from './money';
+
+interface ProviderComparisonProps {
+  amount: string;
+  selectedCurrency: Currency;
+  rates: ExchangeRates | null;
+  // Currencies offered as the target when converting from the home currency.
+  currencies: Currency[];
+  isDarkMode: boolean;
+}
+
+const formatNumber = (value: number) =>
+  new Intl.NumberFormat('hu-HU', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+
+const formatAmount = (value: Decimal) => formatDecimal(value, 2, 2);
+
+export default function ProviderComparison({
+  amount,
+  selectedCurrency,
+  rates,
+  currencies,
+  isDarkMode,
+}: ProviderComparisonProps) {
+  const [chosenTarget, setChosenTarget] = useState<Currency | null>(null);
+
+  if (!rates) return null;
+
+  // Foreign amounts are compared in the home currency; a home-currency amount
+  // needs a foreign target.
+  const base = rates.base;
+  const isFromBase = selectedCurrency === base;
+  const target = isFromBase
+    ? (chosenTarget && currencies.includes(chosenTarget) ? chosenTarget : currencies[0])
+    : base;
+  const value = parseDecimal(amount) ?? ZERO;
+  const hasAmount = compareDecimal(value, ZERO) > 0;
+  const quotes = target && hasAmount
+    ? compareTransferProviders(value, selectedCurrency, target, rates.quotes)
+    : [];
+  const mutedText = isDarkMode ? 'text-zinc-400' : 'text-stone-500';
+
+  return (
+    <section
+      aria-labelledby="provider-comparison-title"
+      className={`p-4 rounded-2xl border ${
+        isDarkMode ? 'bg-zinc-800/50 border-zinc-700/50' : 'bg-amber-50/50 border-stone-200'
+      }`}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h2
+          id="provider-comparison-title"
+          className={`text-sm font-semibold ${isDarkMode ? 'text-zinc-200' : 'text-stone-800'}`}
+        >
+          Hol kapsz többet {hasAmount ? `${formatAmount(value)} ${getCurrencySymbol(selectedCurrency)}` : ''} váltásakor?
+        </h2>
+        {isFromBase && target && (
+          <>
+            <label htmlFor="comparison-target" className="sr-only">Céldeviza</label>
+            <select
+              id="comparison-target"
+              value={target}
+              onChange={(e) => setChosenTarget(e.target.value)}
+              className={`py-1 px-2 rounded-lg border text-xs ${
+                isDarkMode
+                  ? 'bg-zinc-800/70 border-zinc-700 text-zinc-300'
+                  : 'bg-stone-50 border-stone-300 text-stone-600'
+              }`}
+            >
+              {currencies.map((code) => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </>
+        )}
+      </div>
+
+      {quotes.length === 0 ? (
+        <p className={`text-xs ${mutedText}`}>Adj meg egy összeget az összehasonlításhoz.</p>
+      ) : (
+        <ol className="space-y-2">
+          {quotes.map((quote, index) => (
+            <li
+              key={quote.provider.id}
+              className={`p-3 rounded-xl border flex items-center gap-3 ${
+                index === 0
+                  ? (isDarkMode ? 'border-emerald-800 bg-emerald-950/30' : 'border-emerald-300 bg-emerald-50')
+                  : (isDarkMode ? 'border-zinc-700/50' : 'border-stone-200 bg-white/60')
+              }`}
+            >
+              <span className={`w-5 text-center text-sm font-bold ${mutedText}`}>
+                {index === 0 ? <Trophy className="w-4 h-4 text-emerald-500" aria-label="Legjobb" /> : index + 1}
+              </span>
+              <div className="flex-1 min-w-0">
+                <div className={`text-sm font-medium ${isDarkMode ? 'text-zinc-200' : 'text-stone-800'}`}>
+                  {quote.provider.url ? (
+                    <a
+                      href={quote.provider.url}
+                      target="_blank"
+                      rel={`noopener noreferrer${quote.provider.sponsored ? ' sponsored nofollow' : ''}`}
+                      className="inline-flex items-center gap-1 hover:underline"
+                    >
+                      {quote.provider.name}
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  ) : quote.provider.name}
+                </div>
+                <div className={`text-xs ${mutedText}`} title={quote.provider.description}>
+                  {quote.distanceFromMidPercent > 0.005
+                    ? `−${formatNumber(quote.distanceFromMidPercent)}% a középárfolyamhoz képest`
+                    : 'középárfolyamon'}
+                  {compareDecimal(quote.fees.amount, ZERO) > 0
+                    && ` · díj ${formatAmount(quote.fees.amount)} ${getCurrencySymbol(selectedCurrency)}`}
+                </div>
+              </div>
+              <div className={`text-right text-sm font-semibold ${isDarkMode ? 'text-zinc-100' : 'text-stone-800'}`}>
+                {formatAmount(quote.received.amount)} {getCurrencySymbol(target)}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+      <p className={`mt-3 text-xs ${mutedText}`}>
+        Tájékoztató díjakkal számolva; a pontos feltételeket a szolgáltatónál ellenőrizd.
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,312 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { X } from 'lucide-react';
+import Dialog from './Dialog';
+import { DAY_MS, loadRateHistory } from './rateHistory';
+import { RatePoint, fetchHistoricalSeries } from './historicalRates';
+import { crossRate } from './rateProviders';
+import { getCurrencySymbol } from './currencies';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+const RANGES = [
+  { id: '1D', label: '1 nap', ms: DAY_MS },
+  { id: '1W', label: '1 hét', ms: 7 * DAY_MS },
+  { id: '1M', label: '1 hónap', ms: 30 * DAY_MS },
+  { id: '1Y', label: '1 év', ms: 365 * DAY_MS },
+  { id: 'Max', label: 'Teljes időszak', ms: null },
+] as const;
+
+type RangeId = typeof RANGES[number]['id'];
+
+const CHART = {
+  WIDTH: 600,
+  HEIGHT: 280,
+  PAD_X: 12,
+  PAD_Y: 24,
+  // Local history must reach back this close to the range start to be used.
+  COVERAGE_TOLERANCE: 0.1,
+};
+
+interface RateChartProps {
+  currency: string;
+  base: string;
+  isDarkMode: boolean;
+  onClose: () => void;
+}
+
+const formatRate = (value: number) =>
+  new Intl.NumberFormat('hu-HU', { minimumFractionDigits: 2, maximumFractionDigits: 4 }).format(value);
+
+const formatTime = (ts: number) =>
+  new Intl.DateTimeFormat('hu-HU', { dateStyle: 'medium', timeStyle: 'short' }).format(ts);
+
+// Prefers local snapshots; falls back to the historical source when they
+// don't cover the range, and back to whatever is local if that fails.
+const loadSeries = async (currency: string, base: string, rangeMs: number | null, signal: AbortSignal) => {
+  const now = Date.now();
+  const since = rangeMs === null ? 0 : now - rangeMs;
+  const local: RatePoint[] = (await loadRateHistory(since).catch(() => []))
+    .map((snapshot) => ({
+      ts: snapshot.ts,
+      value: crossRate(snapshot.rates, currency, base),
+    }))
+    .filter((point) => point.value > 0);
+
+  const covers = rangeMs !== null &&
+    local.length >= 2 &&
+    local[0].ts <= since + rangeMs * CHART.COVERAGE_TOLERANCE;
+  if (covers) return { points: local, source: 'Helyi előzmények' };
+
+  try {
+    const remote = await fetchHistoricalSeries(currency, base, since, now, signal);
+    if (remote.length >= 2) return { points: remote, source: 'EKB (Frankfurter)' };
+  } catch (error) {
+    if (signal.aborted) throw error;
+    console.warn('Történelmi árfolyamok nem elérhetők:', error);
+  }
+  return { points: local, source: 'Helyi előzmények' };
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+export default function RateChart({ currency, base, isDarkMode, onClose }: RateChartProps) {
+  const [range, setRange] = useState<RangeId>('1W');
+  const [points, setPoints] = useState<RatePoint[]>([]);
+  const [source, setSource] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const rangeMs = RANGES.find((item) => item.id === range)?.ms ?? null;
+    setIsLoading(true);
+    setActiveIndex(null);
+    loadSeries(currency, base, rangeMs, controller.signal)
+      .then((result) => {
+        setPoints(result.points);
+        setSource(result.source);
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setPoints([]);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [currency, base, range]);
+
+  const stats = useMemo(() => {
+    if (points.length === 0) return null;
+    let minIndex = 0;
+    let maxIndex = 0;
+    let sum = 0;
+    points.forEach((point, index) => {
+      if (point.value < points[minIndex].value) minIndex = index;
+      if (point.value > points[maxIndex].value) maxIndex = index;
+      sum += point.value;
+    });
+    return { minIndex, maxIndex, average: sum / points.length };
+  }, [points]);
+
+  const scale = useMemo(() => {
+    if (points.length < 2 || !stats) return null;
+    const minTs = points[0].ts;
+    const spanTs = points[points.length - 1].ts - minTs || 1;
+    const minValue = points[stats.minIndex].value;
+    const spanValue = points[stats.maxIndex].value - minValue || 1;
+    return {
+      x: (ts: number) => CHART.PAD_X + ((ts - minTs) / spanTs) * (CHART.WIDTH - 2 * CHART.PAD_X),
+      y: (value: number) => CHART.HEIGHT - CHART.PAD_Y - ((value - minValue) / spanValue) * (CHART.HEIGHT - 2 * CHART.PAD_Y),
+    };
+  }, [points, stats]);
+
+  const pointerToIndex = (clientX: number) => {
+    const svg = svgRef.current;
+    if (!svg || !scale) return null;
+    const rect = svg.getBoundingClientRect();
+    const chartX = ((clientX - rect.left) / rect.width) * CHART.WIDTH;
+    let nearest = 0;
+    points.forEach((point, index) => {
+      if (Math.abs(scale.x(point.ts) - chartX) < Math.abs(scale.x(points[nearest].ts) - chartX)) {
+        nearest = index;
+      }
+    });
+    return nearest;
+  };
+
+  const handleChartKeyDown = (event: React.KeyboardEvent) => {
+    if (points.length === 0) return;
+    const last = points.length - 1;
+    const current = activeIndex ?? last;
+    const bigStep = Math.max(1, Math.round(points.length / 10));
+    const next = (() => {
+      switch (event.key) {
+        case 'ArrowLeft': return Math.max(0, current - 1);
+        case 'ArrowRight': return Math.min(last, current + 1);
+        case 'PageUp': return Math.max(0, current - bigStep);
+        case 'PageDown': return Math.min(last, current + bigStep);
+        case 'Home': return 0;
+        case 'End': return last;
+        default: return null;
+      }
+    })();
+    if (next === null) return;
+    event.preventDefault();
+    setActiveIndex(next);
+  };
+
+  const activePoint = activeIndex !== null ? points[activeIndex] : null;
+  const linePoints = scale
+    ? points.map((point) => `${scale.x(point.ts).toFixed(1)},${scale.y(point.value).toFixed(1)}`).join(' ')
+    : '';
+
+  const baseSymbol = getCurrencySymbol(base);
+  const mutedText = isDarkMode ? 'text-zinc-400' : 'text-stone-500';
+  const axisColor = isDarkMode ? '#52525b' : '#d6d3d1';
+  const lineColor = isDarkMode ? '#22d3ee' : '#0891b2';
+
+  return (
+    <Dialog
+      labelledBy="rate-chart-title"
+      initialFocusRef={closeButtonRef}
+      onClose={onClose}
+      className={`w-full max-w-2xl rounded-3xl shadow-2xl p-6 border ${
+        isDarkMode ? 'bg-zinc-900 border-zinc-800 text-zinc-100' : 'bg-white border-stone-200 text-stone-800'
+      }`}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h2 id="rate-chart-title" className="text-2xl font-bold">{currency}/{base}</h2>
+        <button
+          ref={closeButtonRef}
+          type="button"
+          onClick={onClose}
+          aria-label="Grafikon bezárása"
+          className={`p-2 rounded-xl border transition-colors ${
+            isDarkMode
+              ? 'bg-zinc-800 border-zinc-700 hover:bg-zinc-700 text-zinc-300'
+              : 'bg-stone-100 border-stone-300 hover:bg-stone-200 text-stone-600'
+          }`}
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-4" role="group" aria-label="Időtáv">
+        {RANGES.map((item) => (
+          <button
+            key={item.id}
+            type="button"
+            onClick={() => setRange(item.id)}
+            aria-pressed={range === item.id}
+            aria-label={item.label}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors focus:ring-2 focus:ring-cyan-500 ${
+              range === item.id
+                ? 'bg-cyan-500 border-cyan-500 text-white'
+                : isDarkMode
+                  ? 'bg-zinc-800 border-zinc-700 text-zinc-300 hover:bg-zinc-700'
+                  : 'bg-stone-100 border-stone-300 text-stone-600 hover:bg-stone-200'
+            }`}
+          >
+            {item.id}
+          </button>
+        ))}
+      </div>
+
+      <div className={`h-6 mb-2 text-sm ${mutedText}`} aria-live="polite">
+        {activePoint
+          ? <span><strong className={isDarkMode ? 'text-zinc-100' : 'text-stone-800'}>{formatRate(activePoint.value)} {baseSymbol}</strong> · {formatTime(activePoint.ts)}</span>
+          : stats && <span>Átlag: {formatRate(stats.average)} {baseSymbol}</span>}
+      </div>
+
+      {isLoading ? (
+        <div className={`h-64 rounded-2xl animate-pulse ${isDarkMode ? 'bg-zinc-800/50' : 'bg-stone-100'}`} />
+      ) : !scale || !stats ? (
+        <p className={`h-64 flex items-center justify-center text-sm ${mutedText}`}>
+          Ehhez az időtávhoz nincs elég adat.
+        </p>
+      ) : (
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${CHART.WIDTH} ${CHART.HEIGHT}`}
+          className="w-full h-auto rounded-2xl focus:outline-none focus:ring-2 focus:ring-cyan-500 touch-none"
+          tabIndex={0}
+          role="img"
+          aria-label={`${currency}/${base} árfolyam grafikon. Nyilakkal léptethető.`}
+          onKeyDown={handleChartKeyDown}
+          onPointerMove={(e) => setActiveIndex(pointerToIndex(e.clientX))}
+          onPointerDown={(e) => setActiveIndex(pointerToIndex(e.clientX))}
+          onPointerLeave={(e) => {
+            if (e.pointerType === 'mouse') setActiveIndex(null);
+          }}
+        >
+          <line
+            x1={CHART.PAD_X}
+            x2={CHART.WIDTH - CHART.PAD_X}
+            y1={scale.y(stats.average)}
+            y2={scale.y(stats.average)}
+            stroke={axisColor}
+            strokeDasharray="6 4"
+          />
+          <text
+            x={CHART.WIDTH - CHART.PAD_X}
+            y={scale.y(stats.average) - 4}
+            textAnchor="end"
+            fontSize={11}
+            fill={axisColor}
+          >
+            átl. {formatRate(stats.average)}
+          </text>
+          <polyline points={linePoints} fill="none" stroke={lineColor} strokeWidth={2} strokeLinejoin="round" />
+          {[
+            { index: stats.maxIndex, label: 'max', color: isDarkMode ? '#34d399' : '#059669', dy: -8 },
+            { index: stats.minIndex, label: 'min', color: isDarkMode ? '#fb7185' : '#e11d48', dy: 16 },
+          ].map((marker) => {
+            const point = points[marker.index];
+            const x = scale.x(point.ts);
+            return (
+              <g key={marker.label}>
+                <circle cx={x} cy={scale.y(point.value)} r={4} fill={marker.color} />
+                <text
+                  x={Math.min(Math.max(x, 40), CHART.WIDTH - 40)}
+                  y={scale.y(point.value) + marker.dy}
+                  textAnchor="middle"
+                  fontSize={11}
+                  fill={marker.color}
+                >
+                  {marker.label} {formatRate(point.value)}
+                </text>
+              </g>
+            );
+          })}
+          {activePoint && (
+            <g pointerEvents="none">
+              <line
+                x1={scale.x(activePoint.ts)}
+                x2={scale.x(activePoint.ts)}
+                y1={0}
+                y2={CHART.HEIGHT}
+                stroke={axisColor}
+              />
+              <line
+                x1={0}
+                x2={CHART.WIDTH}
+                y1={scale.y(activePoint.value)}
+                y2={scale.y(activePoint.value)}
+                stroke={axisColor}
+              />
+              <circle cx={scale.x(activePoint.ts)} cy={scale.y(activePoint.value)} r={5} fill={lineColor} />
+            </g>
+          )}
+        </svg>
+      )}
+
+      <p className={`mt-3 text-xs ${mutedText}`}>
+        {source && `Forrás: ${source}`}
+      </p>
+    </Dialog>
+  );
+}
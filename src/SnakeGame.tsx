@@ -243,6 +243,13 @@ export default function SnakeGame({ isDarkMode, onClose, isVisible }: SnakeGameP
     const loadHallOfFameOnline = async (showLoading = false) => {
       const requestId = ++hofRequestIdRef.current;
 
+      // Offline the game keeps working against the local list.
+      if (!navigator.onLine) {
+        setHofError('Offline vagy. Megmutatom a helyi listát.');
+        setHofLoading(false);
+        return;
+      }
+
       if (showLoading) {
         setHofLoading(true);
       }
@@ -316,7 +323,13 @@ export default function SnakeGame({ isDarkMode, onClose, isVisible }: SnakeGameP
       )
       .subscribe();
 
+    const handleOnline = () => {
+      void loadHallOfFameOnline(false);
+    };
+    window.addEventListener('online', handleOnline);
+
     return () => {
+      window.removeEventListener('online', handleOnline);
       hofIsMountedRef.current = false;
       loadHallOfFameOnlineRef.current = null;
       if (timeoutId !== null) {
@@ -1250,7 +1263,7 @@ export default function SnakeGame({ isDarkMode, onClose, isVisible }: SnakeGameP
 
     safeSetItem(CONFIG.LASTNAME_KEY, name);
 
-    if (hasSupabaseConfig && supabase) {
+    if (hasSupabaseConfig && supabase && navigator.onLine) {
       try {
         setHofError(null);
         const { error } = await supabase
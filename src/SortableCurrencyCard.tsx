@@ -0,0 +1,300 @@
+import { useState, useEffect, useRef } from 'react';
+import { LineChart, X, TrendingUp, TrendingDown } from 'lucide-react';
+import { useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { Currency, getCurrencyInfo, getCurrencySymbol } from './currencies';
+import { ExchangeRates, crossRate, getProviderName, getRateProvider } from './rateProviders';
+import { RateSnapshot, SPARKLINE_DAYS } from './rateHistory';
+import Sparkline from './Sparkline';
+import { ReferenceRates } from './referenceRates';
+import { ConversionProfile, applyProfile } from './conversionProfiles';
+import { RoundingMode, RoundedAmount, describeRounding, roundAmount } from './rounding';
+import { Money, ZERO, compareDecimal, convertMoney, createMoney } from './money';
+
+interface SortableCurrencyCardProps {
+  currency: Currency;
+  isDarkMode: boolean;
+  rates: ExchangeRates | null;
+  // The rates are from a past day the user picked, not live.
+  isHistorical: boolean;
+  amount: string;
+  selectedCurrency: Currency;
+  history: RateSnapshot[];
+  reference: ReferenceRates | null;
+  // When set, the card also shows what arrives through this channel.
+  profile: ConversionProfile | null;
+  roundingMode: RoundingMode;
+  onOpenChart: (currency: Currency) => void;
+  onRemove: (currency: Currency) => void;
+}
+
+// Stops dnd-kit from treating in-card buttons as drag handles.
+const stopDrag = {
+  onPointerDown: (e: React.PointerEvent) => e.stopPropagation(),
+  onKeyDown: (e: React.KeyboardEvent) => e.stopPropagation(),
+};
+
+export default function SortableCurrencyCard(props: SortableCurrencyCardProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: props.currency });
+
+  const baseTransform = CSS.Transform.toString(transform);
+  const dragTransform = isDragging ? ' scale(1.05) rotate(2deg)' : '';
+  const combinedTransform = `${baseTransform}${dragTransform}`.trim();
+
+  const style = {
+    transform: combinedTransform || undefined,
+    transition,
+    zIndex: isDragging ? 50 : 1,
+  };
+
+  // Flash the rate briefly when a refresh moves it.
+  const liveBase = props.rates?.base;
+  const liveRate = props.rates ? crossRate(props.rates.rates, props.currency, props.rates.base) : 0;
+  const isHistorical = props.isHistorical;
+  const previousRateRef = useRef({ base: liveBase, rate: liveRate, isHistorical });
+  const [flash, setFlash] = useState<'up' | 'down' | null>(null);
+
+  useEffect(() => {
+    const previous = previousRateRef.current;
+    previousRateRef.current = { base: liveBase, rate: liveRate, isHistorical };
+    // A base switch or a jump to another day changes every number; that isn't market movement.
+    if (previous.base !== liveBase || previous.isHistorical || isHistorical
+      || !previous.rate || !liveRate || previous.rate === liveRate) return;
+    setFlash(liveRate > previous.rate ? 'up' : 'down');
+    const timeoutId = window.setTimeout(() => setFlash(null), 1500);
+    return () => window.clearTimeout(timeoutId);
+  }, [liveBase, liveRate, isHistorical]);
+
+  const formatNumber = (value: number): string => {
+    return new Intl.NumberFormat('hu-HU', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(value);
+  };
+
+  if (!props.rates || props.currency === props.rates.base) return null;
+
+  const base = props.rates.base;
+  const info = getCurrencyInfo(props.currency);
+  const hasRate = Boolean(props.rates.rates[props.currency]);
+  const rate = hasRate ? formatNumber(liveRate) : '–';
+  const referenceRate = props.reference ? crossRate(props.reference.rates, props.currency, base) : 0;
+  const change = hasRate && referenceRate ? liveRate - referenceRate : null;
+  const changePercent = change !== null ? (change / referenceRate) * 100 : null;
+  const isConvertingToBase = props.selectedCurrency === props.currency;
+  const targetCurrency = isConvertingToBase ? base : props.currency;
+  // Exact decimal conversion; the amount arrives as a plain `1234.5` string.
+  const midMoney = convertMoney(
+    createMoney(props.amount, isConvertingToBase ? props.currency : props.selectedCurrency),
+    targetCurrency,
+    props.rates.quotes
+  ) ?? createMoney(0, targetCurrency);
+  const convertedAmount = roundAmount(midMoney, props.roundingMode);
+  const profileResult = props.profile && compareDecimal(midMoney.amount, ZERO) > 0
+    ? applyProfile(midMoney, props.rates.quotes, props.profile)
+    : null;
+  const receivedMoney = profileResult?.received ?? null;
+  const receivedAmount = receivedMoney ? roundAmount(receivedMoney, props.roundingMode) : null;
+  // Rounded figures carry a "≈" and say in the tooltip what was rounded from.
+  const formatAmount = (amount: RoundedAmount, exact: Money) => ({
+    text: `${amount.isRounded ? '≈ ' : ''}${amount.text} ${getCurrencySymbol(targetCurrency)}`,
+    title: amount.isRounded
+      ? `${describeRounding(targetCurrency, props.roundingMode)}; pontosan ${
+        roundAmount(exact, 'exact').text
+      } ${getCurrencySymbol(targetCurrency)}`
+      : undefined,
+  });
+  const converted = formatAmount(convertedAmount, midMoney);
+
+  const displayInfo = getCurrencyInfo(isConvertingToBase ? base : props.currency);
+  const rateProvider = getRateProvider(props.rates.provider);
+  const historyValues = props.history
+    .map((snapshot) => crossRate(snapshot.rates, props.currency, base))
+    .filter((value) => value > 0);
+  const Icon = info.icon;
+  const iconColor = props.isDarkMode ? info.darkIconColor : info.iconColor;
+  const cardButtonClass = `p-2 rounded-lg transition-colors cursor-pointer ${
+    props.isDarkMode
+      ? 'text-zinc-400 hover:text-cyan-400 hover:bg-zinc-700/60'
+      : 'text-stone-500 hover:text-cyan-600 hover:bg-stone-200/60'
+  }`;
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      role="listitem"
+      className={`${props.isDarkMode ? info.darkBgColor : info.bgColor} p-6 rounded-2xl transition-all duration-200
+        border ${props.isDarkMode ? 'border-zinc-700/50 hover:border-zinc-600' : 'border-stone-200 hover:border-stone-300'}
+        hover:shadow-2xl animate-slide-up relative group cursor-grab active:cursor-grabbing
+        ${isDragging ? 'shadow-2xl ring-2 ring-cyan-500' : 'hover:scale-[1.02]'}`}
+      {...attributes}
+      {...listeners}
+      onClick={() => props.onOpenChart(props.currency)}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="animate-float" title={info.name}>
+            {Icon
+              ? <Icon className={`w-8 h-8 ${iconColor}`} />
+              : <span className={`w-8 h-8 font-bold text-2xl ${iconColor}`}>{info.code}</span>}
+          </div>
+          {props.isHistorical && (
+            <span
+              className={`px-2 py-0.5 rounded-full text-xs font-semibold border ${
+                props.isDarkMode
+                  ? 'bg-violet-950/40 border-violet-800 text-violet-300'
+                  : 'bg-violet-50 border-violet-300 text-violet-700'
+              }`}
+              title="Múltbeli árfolyam, nem élő"
+            >
+              {props.rates.publishedAt}
+            </span>
+          )}
+          {rateProvider?.official && (
+            <span
+              className={`px-2 py-0.5 rounded-full text-xs font-semibold border ${
+                props.isDarkMode
+                  ? 'bg-emerald-950/40 border-emerald-800 text-emerald-300'
+                  : 'bg-emerald-50 border-emerald-300 text-emerald-700'
+              }`}
+              title="A Magyar Nemzeti Bank hivatalos árfolyama, nem piaci középárfolyam"
+            >
+              {rateProvider.name}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              props.onOpenChart(props.currency);
+            }}
+            {...stopDrag}
+            aria-label={`${props.currency}/${base} grafikon megnyitása`}
+            title="Grafikon"
+            className={cardButtonClass}
+          >
+            <LineChart className="w-5 h-5" />
+          </button>
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              props.onRemove(props.currency);
+            }}
+            {...stopDrag}
+            aria-label={`${props.currency} kártya eltávolítása`}
+            title="Eltávolítás"
+            className={`${cardButtonClass} mr-2`}
+          >
+            <X className="w-5 h-5" />
+          </button>
+          {displayInfo.flag ? (
+            <img
+              src={displayInfo.flag}
+              alt={`${displayInfo.symbol} flag`}
+              style={{
+                width: '56px',
+                height: '36px',
+                objectFit: 'cover'
+              }}
+              className="shadow-md rounded-md border border-white/20"
+            />
+          ) : (
+            <span
+              style={{ width: '56px', height: '36px' }}
+              className={`flex items-center justify-center shadow-md rounded-md border text-sm font-bold ${
+                props.isDarkMode ? 'bg-zinc-700 border-zinc-600 text-zinc-200' : 'bg-stone-200 border-white/20 text-stone-700'
+              }`}
+            >
+              {displayInfo.code}
+            </span>
+          )}
+        </div>
+      </div>
+      <div className="flex justify-between items-end">
+        <div>
+          <span
+            key={flash ? `${flash}-${liveRate}` : 'steady'}
+            className={`text-4xl font-bold ${props.isDarkMode ? 'text-zinc-100' : 'text-stone-800'} ${
+              flash === 'up' ? 'animate-flash-up' : flash === 'down' ? 'animate-flash-down' : ''
+            }`}
+          >
+            {rate}
+          </span>
+          {change !== null && changePercent !== null && (
+            <div
+              className={`mt-1 flex items-center gap-1 text-sm font-medium ${
+                change > 0
+                  ? (props.isDarkMode ? 'text-emerald-400' : 'text-emerald-600')
+                  : change < 0
+                    ? (props.isDarkMode ? 'text-rose-400' : 'text-rose-600')
+                    : (props.isDarkMode ? 'text-zinc-400' : 'text-stone-500')
+              }`}
+              title={`Viszonyítás: ${new Date(props.reference?.ts ?? 0).toLocaleString('hu-HU')}`}
+            >
+              {change > 0 && <TrendingUp className="w-4 h-4" />}
+              {change < 0 && <TrendingDown className="w-4 h-4" />}
+              <span>
+                {change > 0 ? '+' : ''}{formatNumber(change)} ({change > 0 ? '+' : ''}{formatNumber(changePercent)}%)
+              </span>
+            </div>
+          )}
+        </div>
+        <div className={`text-right ${props.isDarkMode ? 'text-zinc-400' : 'text-stone-600'}`}>
+          {!hasRate ? (
+            <div className="text-sm">Ez a forrás nem jegyzi</div>
+          ) : props.amount && (
+            <>
+              {profileResult && <div className="text-xs">középárfolyamon</div>}
+              <div className="text-lg font-medium" title={converted.title}>
+                {converted.text}
+              </div>
+              {convertedAmount.isRounded && props.roundingMode === 'cash' && (
+                <div className="text-xs">{describeRounding(targetCurrency, 'cash')}</div>
+              )}
+              {profileResult && receivedMoney && receivedAmount && props.profile && (
+                <div
+                  className={`text-sm font-semibold ${props.isDarkMode ? 'text-cyan-300' : 'text-cyan-700'}`}
+                  title={`${props.profile.name}: ${formatNumber(profileResult.marginPercent)}% árrés${
+                    profileResult.isWeekend && props.profile.weekendSurchargePercent > 0 ? ' (hétvégi felárral)' : ''
+                  }${compareDecimal(profileResult.fee.amount, ZERO) > 0
+                    ? `, ${roundAmount(profileResult.fee, 'bank').text} ${getCurrencySymbol(targetCurrency)} díj`
+                    : ''}${
+                    receivedAmount.isRounded ? `; ${formatAmount(receivedAmount, receivedMoney).title}` : ''
+                  }`}
+                >
+                  Kapsz: {formatAmount(receivedAmount, receivedMoney).text}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+      {historyValues.length > 1 && (
+        <div className="mt-3 flex justify-end">
+          <Sparkline
+            values={historyValues}
+            isDarkMode={props.isDarkMode}
+            label={`${props.currency}/${base} az elmúlt ${SPARKLINE_DAYS} napban`}
+          />
+        </div>
+      )}
+      {props.rates.publishedAt && (
+        <div className={`mt-2 text-xs ${props.isDarkMode ? 'text-zinc-500' : 'text-stone-500'}`}>
+          {getProviderName(props.rates.provider)}: {props.rates.publishedAt}
+          {props.rates.carriedForward && ' (utolsó közzétett árfolyam)'}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+interface SparklineProps {
+  values: number[];
+  isDarkMode: boolean;
+  label: string;
+  width?: number;
+  height?: number;
+}
+
+// Small trend line; colour follows the direction from first to last value.
+export default function Sparkline({ values, isDarkMode, label, width = 120, height = 28 }: SparklineProps) {
+  if (values.length < 2) return null;
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const step = width / (values.length - 1);
+  const points = values
+    .map((value, index) => {
+      const x = index * step;
+      const y = height - 2 - ((value - min) / span) * (height - 4);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  const first = values[0];
+  const last = values[values.length - 1];
+  const stroke = last > first
+    ? (isDarkMode ? '#34d399' : '#059669')
+    : last < first
+      ? (isDarkMode ? '#fb7185' : '#e11d48')
+      : (isDarkMode ? '#a1a1aa' : '#78716c');
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      role="img"
+      aria-label={label}
+      className="overflow-visible"
+    >
+      <polyline
+        points={points}
+        fill="none"
+        stroke={stroke}
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    </svg>
+  );
+}
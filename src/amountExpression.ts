@@ -0,0 +1,198 @@
+import { readLocaleNumber } from './localeNumber';
+import {
+  Decimal,
+  ZERO,
+  addDecimal,
+  decimalToNumber,
+  divideDecimal,
+  multiplyDecimal,
+  negateDecimal,
+  parseDecimal,
+  subtractDecimal,
+} from './money';
+
+// ============================================================================
+// Amount expressions
+// ============================================================================
+// The amount field accepts simple arithmetic, e.g. `3*45,5`, `(250-20)/4` or
+// `1 200+15%`, for splitting bills and adding tips. A small recursive-descent
+// parser evaluates it; nothing is ever passed to `eval`. Numbers are read in
+// the locale's format, see localeNumber.ts, and computed exactly, see money.ts.
+//
+// Percentages follow calculator conventions: `a+b%` and `a-b%` add or take
+// b percent of a, while `a*b%` and a bare `b%` mean b/100.
+
+export type AmountExpressionResult =
+  | { ok: true; value: number; exact: Decimal; isExpression: boolean; ambiguities: string[] }
+  | { ok: false; error: string; position: number };
+
+type Operator = '+' | '-' | '*' | '/' | '%' | '(' | ')';
+
+type Token =
+  | { type: 'number'; value: Decimal; position: number }
+  | { type: 'operator'; value: Operator; position: number };
+
+interface Operand {
+  value: Decimal;
+  // Set for a lone `b%` term, so `a+b%` can be read as "a plus b percent of a".
+  percentOf?: Decimal;
+}
+
+class ExpressionError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+  }
+}
+
+const CONFIG = {
+  MAX_LENGTH: 60,
+};
+
+const HUNDRED: Decimal = { units: 100n, scale: 0 };
+
+const OPERATOR_ALIASES: Record<string, Operator> = {
+  '+': '+',
+  '-': '-',
+  '−': '-',
+  '*': '*',
+  '×': '*',
+  x: '*',
+  '/': '/',
+  '÷': '/',
+  ':': '/',
+  '%': '%',
+  '(': '(',
+  ')': ')',
+};
+
+const tokenize = (input: string, ambiguities: string[]): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < input.length) {
+    const char = input[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+    const number = readLocaleNumber(input, index);
+    if (number) {
+      tokens.push({ type: 'number', value: parseDecimal(number.plain) ?? ZERO, position: index });
+      if (number.ambiguity) ambiguities.push(number.ambiguity);
+      index += number.length;
+      continue;
+    }
+    const operator = OPERATOR_ALIASES[char.toLowerCase()];
+    if (!operator) {
+      throw new ExpressionError(`Érvénytelen karakter: „${char}”`, index);
+    }
+    tokens.push({ type: 'operator', value: operator, position: index });
+    index++;
+  }
+  return tokens;
+};
+
+const parseTokens = (tokens: Token[], inputLength: number): Decimal => {
+  let index = 0;
+  const peek = () => tokens[index];
+  const positionOf = (token: Token | undefined) => token?.position ?? inputLength;
+  const isOperator = (token: Token | undefined, value: Operator) =>
+    token?.type === 'operator' && token.value === value;
+
+  // primary := number ['%'] | '(' expression ')' ['%'] | ('+' | '-') primary
+  const parsePrimary = (): Operand => {
+    const token = peek();
+    if (!token) throw new ExpressionError('Hiányzó szám a végén', inputLength);
+
+    let value: Decimal;
+    if (token.type === 'number') {
+      index++;
+      value = token.value;
+    } else if (token.value === '(') {
+      index++;
+      value = parseExpression();
+      if (!isOperator(peek(), ')')) {
+        throw new ExpressionError('Hiányzó záró zárójel', positionOf(peek()));
+      }
+      index++;
+    } else if (token.value === '-' || token.value === '+') {
+      index++;
+      const operand = parsePrimary();
+      return { value: token.value === '-' ? negateDecimal(operand.value) : operand.value };
+    } else {
+      throw new ExpressionError(`Itt szám kellene, nem „${token.value}”`, token.position);
+    }
+
+    if (isOperator(peek(), '%')) {
+      index++;
+      return { value: divideDecimal(value, HUNDRED), percentOf: value };
+    }
+    return { value };
+  };
+
+  // term := primary (('*' | '/') primary)*
+  const parseTerm = (): Operand => {
+    let left = parsePrimary();
+    while (isOperator(peek(), '*') || isOperator(peek(), '/')) {
+      const operator = tokens[index++];
+      const right = parsePrimary();
+      if (operator.value === '/' && right.value.units === 0n) {
+        throw new ExpressionError('Nullával nem lehet osztani', operator.position);
+      }
+      left = {
+        value: operator.value === '*'
+          ? multiplyDecimal(left.value, right.value)
+          : divideDecimal(left.value, right.value),
+      };
+    }
+    return left;
+  };
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): Decimal => {
+    let value = parseTerm().value;
+    while (isOperator(peek(), '+') || isOperator(peek(), '-')) {
+      const operator = tokens[index++];
+      const right = parseTerm();
+      const amount = right.percentOf !== undefined
+        ? divideDecimal(multiplyDecimal(value, right.percentOf), HUNDRED)
+        : right.value;
+      value = operator.value === '+' ? addDecimal(value, amount) : subtractDecimal(value, amount);
+    }
+    return value;
+  };
+
+  const value = parseExpression();
+  const rest = peek();
+  if (rest) {
+    throw new ExpressionError(
+      isOperator(rest, ')') ? 'Fölösleges záró zárójel' : 'Hiányzó műveleti jel',
+      rest.position
+    );
+  }
+  return value;
+};
+
+// Null for an empty field.
+const evaluateAmountExpression = (input: string): AmountExpressionResult | null => {
+  if (!input.trim()) return null;
+  if (input.length > CONFIG.MAX_LENGTH) {
+    return { ok: false, error: 'Túl hosszú kifejezés', position: CONFIG.MAX_LENGTH };
+  }
+  try {
+    const ambiguities: string[] = [];
+    const tokens = tokenize(input, ambiguities);
+    const exact = parseTokens(tokens, input.length);
+    const value = decimalToNumber(exact);
+    if (!Number.isFinite(value)) {
+      return { ok: false, error: 'Túl nagy szám', position: 0 };
+    }
+    return { ok: true, value, exact, isExpression: tokens.length > 1, ambiguities };
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      return { ok: false, error: error.message, position: error.position };
+    }
+    throw error;
+  }
+};
+
+export { evaluateAmountExpression };
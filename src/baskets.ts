@@ -0,0 +1,114 @@
+import { Currency } from './currencies';
+import { evaluateAmountExpression } from './amountExpression';
+import { Money, RateQuotes, ZERO, addDecimal, compareDecimal, convertMoney, createMoney } from './money';
+import { createId } from './ids';
+
+// ============================================================================
+// Baskets
+// ============================================================================
+// A basket is a named list of costs in different currencies, e.g. a trip's
+// hotel in EUR, flights in GBP and a ski pass in CHF. Amounts are kept as
+// typed, so expressions like `3*45` survive reopening; totals are always
+// recomputed from the current rates.
+
+export interface BasketItem {
+  id: string;
+  label: string;
+  // The raw field content, evaluated like the main amount field.
+  amount: string;
+  currency: Currency;
+}
+
+export interface Basket {
+  id: string;
+  name: string;
+  items: BasketItem[];
+  updatedAt: number;
+}
+
+export interface BasketLine {
+  item: BasketItem;
+  // Null when the amount is empty or invalid, or the currency has no rate.
+  converted: Money | null;
+  error: string | null;
+}
+
+export interface BasketTotal {
+  lines: BasketLine[];
+  total: Money;
+  // Lines left out of the total.
+  skipped: number;
+}
+
+const CONFIG = {
+  STORAGE_KEY: 'baskets',
+};
+
+const createBasketItem = (currency: Currency): BasketItem => ({
+  id: createId(),
+  label: '',
+  amount: '',
+  currency,
+});
+
+const createBasket = (name: string, currency: Currency): Basket => ({
+  id: createId(),
+  name,
+  items: [createBasketItem(currency)],
+  updatedAt: Date.now(),
+});
+
+const totalBasket = (basket: Basket, home: Currency, quotes: RateQuotes): BasketTotal => {
+  let total = ZERO;
+  const lines = basket.items.map((item): BasketLine => {
+    const result = evaluateAmountExpression(item.amount);
+    if (!result) return { item, converted: null, error: null };
+    if (!result.ok) return { item, converted: null, error: result.error };
+    if (compareDecimal(result.exact, ZERO) < 0) {
+      return { item, converted: null, error: 'Az összeg nem lehet negatív' };
+    }
+    const converted = convertMoney(createMoney(result.exact, item.currency), home, quotes);
+    if (!converted) {
+      return { item, converted: null, error: `Nincs árfolyam: ${item.currency}` };
+    }
+    total = addDecimal(total, converted.amount);
+    return { item, converted, error: null };
+  });
+  return { lines, total: createMoney(total, home), skipped: lines.filter((line) => line.error !== null).length };
+};
+
+const loadBaskets = (): Basket[] => {
+  try {
+    const raw = localStorage.getItem(CONFIG.STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((basket) => basket && typeof basket.id === 'string' && typeof basket.name === 'string'
+        && Array.isArray(basket.items))
+      .map((basket) => ({
+        id: basket.id,
+        name: basket.name,
+        items: (basket.items as Partial<BasketItem>[])
+          .filter((item) => item && typeof item.id === 'string' && typeof item.currency === 'string')
+          .map((item) => ({
+            id: item.id as string,
+            label: typeof item.label === 'string' ? item.label : '',
+            amount: typeof item.amount === 'string' ? item.amount : '',
+            currency: item.currency as Currency,
+          })),
+        updatedAt: typeof basket.updatedAt === 'number' ? basket.updatedAt : 0,
+      }));
+  } catch {
+    return [];
+  }
+};
+
+const saveBaskets = (baskets: Basket[]) => {
+  try {
+    localStorage.setItem(CONFIG.STORAGE_KEY, JSON.stringify(baskets));
+  } catch {
+    // Ignore storage errors (e.g., private mode or quota)
+  }
+};
+
+export { createBasket, createBasketItem, totalBasket, loadBaskets, saveBaskets };
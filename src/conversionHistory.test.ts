@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { ConversionEntry, searchHistory } from './conversionHistory';
+
+const entry = (input: string, amount: string, ts = Date.parse('2024-05-14T10:00:00')): ConversionEntry => ({
+  id: input,
+  ts,
+  input,
+  amount,
+  currency: 'EUR',
+  results: [{ currency: 'HUF', amount: '0' }],
+  quotes: { base: 'EUR', values: { EUR: '1', HUF: '393.9' } },
+  provider: 'ecb',
+  starred: false,
+});
+
+describe('searchHistory', () => {
+  // As the amount field shows it: digits grouped with no-break spaces.
+  const grouped = entry('12 500', '12500');
+  const other = entry('3*45,5', '136.5', Date.parse('2024-06-01T10:00:00'));
+
+  it('ignores the kind and presence of spaces', () => {
+    expect(searchHistory([grouped, other], '12 500')).toEqual([grouped]);
+    expect(searchHistory([grouped, other], '12500')).toEqual([grouped]);
+    expect(searchHistory([grouped, other], '12 500')).toEqual([grouped]);
+  });
+
+  it('matches dates typed without the spaces they print with', () => {
+    expect(searchHistory([grouped, other], '2024.05')).toEqual([grouped]);
+  });
+
+  it('matches currencies in any case and keeps everything for a blank query', () => {
+    expect(searchHistory([grouped, other], ' huf ')).toEqual([grouped, other]);
+    expect(searchHistory([grouped, other], '  ')).toEqual([grouped, other]);
+  });
+});
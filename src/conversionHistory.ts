@@ -0,0 +1,193 @@
+import { Currency } from './currencies';
+import { ExchangeRates, getProviderName } from './rateProviders';
+import { Decimal, Money, RateQuotes, convertMoney, createMoney, decimalToString, quoteRate } from './money';
+import { CsvCell } from './exportFile';
+import { createId } from './ids';
+
+// ============================================================================
+// Conversion history
+// ============================================================================
+// Every settled calculation is logged with the rates it used, so it can be
+// found again later and re-run at either those rates or today's.
+
+export interface ConversionResult {
+  currency: Currency;
+  // Plain decimal form (`1234.5`), unrounded.
+  amount: string;
+}
+
+export interface ConversionEntry {
+  id: string;
+  ts: number;
+  // The amount field as typed, e.g. `3*45,5`.
+  input: string;
+  // Its evaluated value in plain decimal form.
+  amount: string;
+  currency: Currency;
+  results: ConversionResult[];
+  // The quotes used, narrowed to the currencies involved.
+  quotes: RateQuotes;
+  provider: string;
+  // The day the rates belong to: a past day picked on the cards, or the
+  // source's publication date.
+  rateDate?: string;
+  starred: boolean;
+}
+
+const CONFIG = {
+  STORAGE_KEY: 'conversionHistory',
+  // Starred entries are never dropped; the rest are trimmed to this many.
+  MAX_ENTRIES: 200,
+};
+
+// How long a calculation must stay unchanged before it is logged.
+const HISTORY_DEBOUNCE_MS = 2000;
+
+// Null when none of the targets has a rate.
+const createConversionEntry = (
+  input: string,
+  amount: Decimal,
+  currency: Currency,
+  targets: Currency[],
+  rates: ExchangeRates,
+  rateDate?: string
+): ConversionEntry | null => {
+  const source = createMoney(amount, currency);
+  const results = targets.flatMap((target) => {
+    const converted = convertMoney(source, target, rates.quotes);
+    return converted ? [{ currency: target, amount: decimalToString(converted.amount) }] : [];
+  });
+  if (results.length === 0) return null;
+  const used = [rates.quotes.base, currency, ...results.map((result) => result.currency)];
+  return {
+    id: createId(),
+    ts: Date.now(),
+    input: input.trim(),
+    amount: decimalToString(amount),
+    currency,
+    results,
+    quotes: {
+      ...rates.quotes,
+      values: Object.fromEntries(used.map((code) => [code, rates.quotes.values[code]])),
+    },
+    provider: rates.provider,
+    rateDate: rateDate ?? rates.publishedAt,
+    starred: false,
+  };
+};
+
+const isSameConversion = (a: ConversionEntry, b: ConversionEntry) =>
+  a.amount === b.amount
+  && a.currency === b.currency
+  && a.rateDate === b.rateDate
+  && a.results.map((result) => result.currency).join() === b.results.map((result) => result.currency).join();
+
+// Newest first. Repeating the newest calculation only refreshes its result.
+const addConversionEntry = (entries: ConversionEntry[], entry: ConversionEntry): ConversionEntry[] => {
+  const [latest, ...rest] = entries;
+  const next = latest && isSameConversion(latest, entry)
+    ? [{ ...entry, id: latest.id, starred: latest.starred }, ...rest]
+    : [entry, ...entries];
+  let unstarred = 0;
+  return next.filter((item) => item.starred || ++unstarred <= CONFIG.MAX_ENTRIES);
+};
+
+// Spaces of any kind are ignored: the amount field groups digits with
+// no-break spaces and dates print as `2024. 05. 14.`, but users type either
+// plain spaces or none.
+const searchKey = (text: string) => text.replace(/\s/g, '').toLowerCase();
+
+// Matches the typed amount, the currencies and the date, e.g. `eur`, `12 500`
+// or `2024.05`.
+const searchHistory = (entries: ConversionEntry[], query: string) => {
+  const needle = searchKey(query);
+  if (!needle) return entries;
+  return entries.filter((entry) => [
+    entry.input,
+    entry.amount,
+    entry.currency,
+    ...entry.results.map((result) => result.currency),
+    new Date(entry.ts).toLocaleDateString('hu-HU'),
+  ].some((text) => searchKey(text).includes(needle)));
+};
+
+// Null for targets the given quotes don't cover. Pass `entry.quotes` for the
+// original result.
+const rerunConversion = (entry: ConversionEntry, quotes: RateQuotes): (Money | null)[] => {
+  const source = createMoney(entry.amount, entry.currency);
+  return entry.results.map((result) => convertMoney(source, result.currency, quotes));
+};
+
+// 1 source unit in `target` at the entry's rates, as a plain decimal.
+const entryRate = (entry: ConversionEntry, target: Currency) => {
+  const rate = quoteRate(entry.quotes, entry.currency, target);
+  return rate ? decimalToString(rate) : '';
+};
+
+// One row per target currency.
+const historyToCsvRows = (entries: ConversionEntry[]): CsvCell[][] => [
+  ['Időpont', 'Bevitt összeg', 'Összeg', 'Deviza', 'Cél deviza', 'Eredmény', 'Árfolyam', 'Forrás', 'Árfolyam dátuma', 'Csillagozva'],
+  ...entries.flatMap((entry) => entry.results.map((result) => [
+    new Date(entry.ts).toLocaleString('hu-HU'),
+    entry.input,
+    entry.amount.replace('.', ','),
+    entry.currency,
+    result.currency,
+    result.amount.replace('.', ','),
+    entryRate(entry, result.currency).replace('.', ','),
+    getProviderName(entry.provider),
+    entry.rateDate ?? '',
+    entry.starred ? 'igen' : '',
+  ])),
+];
+
+const historyToJson = (entries: ConversionEntry[]) => JSON.stringify(entries, null, 2);
+
+const isConversionEntry = (value: unknown): value is ConversionEntry => {
+  const entry = value as Partial<ConversionEntry> | null;
+  return Boolean(entry)
+    && typeof entry?.id === 'string'
+    && typeof entry.ts === 'number'
+    && typeof entry.amount === 'string'
+    && typeof entry.currency === 'string'
+    && Array.isArray(entry.results)
+    && typeof entry.quotes?.base === 'string'
+    && typeof entry.quotes.values === 'object' && entry.quotes.values !== null;
+};
+
+const loadConversionHistory = (): ConversionEntry[] => {
+  try {
+    const raw = localStorage.getItem(CONFIG.STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(isConversionEntry).map((entry) => ({
+      ...entry,
+      input: typeof entry.input === 'string' ? entry.input : entry.amount,
+      provider: typeof entry.provider === 'string' ? entry.provider : '',
+      starred: entry.starred === true,
+    }));
+  } catch {
+    return [];
+  }
+};
+
+const saveConversionHistory = (entries: ConversionEntry[]) => {
+  try {
+    localStorage.setItem(CONFIG.STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // Ignore storage errors (e.g., private mode or quota)
+  }
+};
+
+export {
+  HISTORY_DEBOUNCE_MS,
+  createConversionEntry,
+  addConversionEntry,
+  searchHistory,
+  rerunConversion,
+  entryRate,
+  historyToCsvRows,
+  historyToJson,
+  loadConversionHistory,
+  saveConversionHistory,
+};
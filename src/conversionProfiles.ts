@@ -0,0 +1,159 @@
+import { Currency } from './currencies';
+import {
+  Money,
+  RateQuotes,
+  ZERO,
+  addDecimal,
+  compareDecimal,
+  convertMoney,
+  createMoney,
+  decimalToNumber,
+  parseDecimal,
+  percentOf,
+  subtractDecimal,
+} from './money';
+
+// ============================================================================
+// Conversion profiles
+// ============================================================================
+// Nobody converts at the mid-market rate: banks add a spread, cards a fee and
+// exchange offices a margin. A profile models one such channel so the cards
+// can show what actually arrives next to the mid-market result.
+
+export interface ConversionProfile {
+  id: string;
+  name: string;
+  // Margin taken from the converted amount, in percent.
+  markupPercent: number;
+  // Flat fee per conversion, charged in `feeCurrency`.
+  fixedFee: number;
+  feeCurrency: Currency;
+  // Extra margin on Saturdays and Sundays, when markets are closed.
+  weekendSurchargePercent: number;
+}
+
+export interface ProfileResult {
+  received: Money;
+  // Total margin applied, in percent (markup plus any weekend surcharge).
+  marginPercent: number;
+  // Fixed fee in the target currency.
+  fee: Money;
+  isWeekend: boolean;
+}
+
+const CONFIG = {
+  STORAGE_KEY: 'conversionProfiles',
+  SELECTED_KEY: 'conversionProfile',
+};
+
+const DEFAULT_PROFILES: ConversionProfile[] = [
+  {
+    id: 'otp-card',
+    name: 'OTP bankkártya',
+    markupPercent: 2.5,
+    fixedFee: 0,
+    feeCurrency: 'HUF',
+    weekendSurchargePercent: 0,
+  },
+  {
+    id: 'revolut-weekend',
+    name: 'Revolut hétvége',
+    markupPercent: 0,
+    fixedFee: 0,
+    feeCurrency: 'HUF',
+    weekendSurchargePercent: 1,
+  },
+  {
+    id: 'vaci-utca',
+    name: 'Pénzváltó, Váci utca',
+    markupPercent: 8,
+    fixedFee: 0,
+    feeCurrency: 'HUF',
+    weekendSurchargePercent: 0,
+  },
+];
+
+const isWeekend = (date: Date) => date.getDay() === 0 || date.getDay() === 6;
+
+const toNonNegative = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+
+const loadProfiles = (): ConversionProfile[] => {
+  try {
+    const raw = localStorage.getItem(CONFIG.STORAGE_KEY);
+    if (!raw) return DEFAULT_PROFILES;
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return DEFAULT_PROFILES;
+    return parsed
+      .filter((item) => item && typeof item.id === 'string' && typeof item.name === 'string')
+      .map((item) => ({
+        id: item.id,
+        name: item.name,
+        markupPercent: toNonNegative(item.markupPercent),
+        fixedFee: toNonNegative(item.fixedFee),
+        feeCurrency: typeof item.feeCurrency === 'string' ? item.feeCurrency : 'HUF',
+        weekendSurchargePercent: toNonNegative(item.weekendSurchargePercent),
+      }));
+  } catch {
+    return DEFAULT_PROFILES;
+  }
+};
+
+const saveProfiles = (profiles: ConversionProfile[]) => {
+  try {
+    localStorage.setItem(CONFIG.STORAGE_KEY, JSON.stringify(profiles));
+  } catch {
+    // Ignore storage errors (e.g., private mode or quota)
+  }
+};
+
+// The chosen profile id, or null for mid-market only.
+const loadSelectedProfileId = (): string | null => localStorage.getItem(CONFIG.SELECTED_KEY);
+
+const saveSelectedProfileId = (id: string | null) => {
+  try {
+    if (id === null) {
+      localStorage.removeItem(CONFIG.SELECTED_KEY);
+    } else {
+      localStorage.setItem(CONFIG.SELECTED_KEY, id);
+    }
+  } catch {
+    // Ignore storage errors (e.g., private mode or quota)
+  }
+};
+
+// What arrives when `mid` (already converted at mid-market) goes through
+// `profile`. Never negative: a fee larger than the amount leaves nothing.
+// A fee in a currency the quotes don't cover is left out.
+const applyProfile = (
+  mid: Money,
+  quotes: RateQuotes,
+  profile: ConversionProfile,
+  date = new Date()
+): ProfileResult => {
+  const weekend = isWeekend(date);
+  const margin = addDecimal(
+    parseDecimal(profile.markupPercent) ?? ZERO,
+    weekend ? parseDecimal(profile.weekendSurchargePercent) ?? ZERO : ZERO
+  );
+  const fee = (profile.fixedFee > 0
+    ? convertMoney(createMoney(profile.fixedFee, profile.feeCurrency), mid.currency, quotes)
+    : null) ?? createMoney(ZERO, mid.currency);
+  const afterMargin = subtractDecimal(mid.amount, percentOf(mid.amount, margin));
+  const received = subtractDecimal(afterMargin, fee.amount);
+  return {
+    received: createMoney(compareDecimal(received, ZERO) > 0 ? received : ZERO, mid.currency),
+    marginPercent: decimalToNumber(margin),
+    fee,
+    isWeekend: weekend,
+  };
+};
+
+export {
+  isWeekend,
+  loadProfiles,
+  saveProfiles,
+  loadSelectedProfileId,
+  saveSelectedProfileId,
+  applyProfile,
+};
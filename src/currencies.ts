@@ -0,0 +1,154 @@
+import { Euro, DollarSign, PoundSterling, JapaneseYen, LucideIcon } from 'lucide-react';
+
+// ============================================================================
+// Currency registry
+// ============================================================================
+// Single source for everything the UI knows about a currency. Codes the
+// provider returns but that are not listed here still work through
+// `getCurrencyInfo`, with a neutral card style and no flag.
+
+export type Currency = string;
+
+export interface CurrencyInfo {
+  code: Currency;
+  name: string;
+  symbol: string;
+  // ISO 4217 minor units.
+  decimals: number;
+  // Smallest amount payable in cash, where coins stop short of the minor unit.
+  cashIncrement?: number;
+  flag: string | null;
+  icon?: LucideIcon;
+  bgColor: string;
+  darkBgColor: string;
+  iconColor: string;
+  darkIconColor: string;
+}
+
+const DARK_BG = 'bg-gradient-to-br from-zinc-800 to-zinc-900';
+
+const CURRENCIES: CurrencyInfo[] = [
+  {
+    code: 'HUF', name: 'Magyar forint', symbol: 'Ft', decimals: 2, cashIncrement: 5, flag: '/flags/hu.svg',
+    bgColor: 'bg-gradient-to-br from-red-50 to-emerald-50', darkBgColor: DARK_BG,
+    iconColor: 'text-emerald-700', darkIconColor: 'text-emerald-400',
+  },
+  {
+    code: 'EUR', name: 'Euró', symbol: '€', decimals: 2, flag: '/flags/eu.svg', icon: Euro,
+    bgColor: 'bg-gradient-to-br from-amber-50 to-orange-50', darkBgColor: DARK_BG,
+    iconColor: 'text-amber-600', darkIconColor: 'text-cyan-400',
+  },
+  {
+    code: 'USD', name: 'Amerikai dollár', symbol: '$', decimals: 2, flag: '/flags/us.svg', icon: DollarSign,
+    bgColor: 'bg-gradient-to-br from-lime-50 to-emerald-50', darkBgColor: DARK_BG,
+    iconColor: 'text-emerald-600', darkIconColor: 'text-emerald-400',
+  },
+  {
+    code: 'GBP', name: 'Angol font', symbol: '£', decimals: 2, flag: '/flags/gb.svg', icon: PoundSterling,
+    bgColor: 'bg-gradient-to-br from-sky-50 to-cyan-50', darkBgColor: DARK_BG,
+    iconColor: 'text-sky-600', darkIconColor: 'text-sky-400',
+  },
+  {
+    code: 'CHF', name: 'Svájci frank', symbol: 'CHF', decimals: 2, cashIncrement: 0.05, flag: '/flags/ch.svg',
+    bgColor: 'bg-gradient-to-br from-rose-50 to-pink-50', darkBgColor: DARK_BG,
+    iconColor: 'text-rose-600', darkIconColor: 'text-rose-400',
+  },
+  {
+    code: 'PLN', name: 'Lengyel zloty', symbol: 'zł', decimals: 2, flag: '/flags/pl.svg',
+    bgColor: 'bg-gradient-to-br from-red-50 to-rose-50', darkBgColor: DARK_BG,
+    iconColor: 'text-red-600', darkIconColor: 'text-red-400',
+  },
+  {
+    code: 'CZK', name: 'Cseh korona', symbol: 'Kč', decimals: 2, cashIncrement: 1, flag: '/flags/cz.svg',
+    bgColor: 'bg-gradient-to-br from-blue-50 to-sky-50', darkBgColor: DARK_BG,
+    iconColor: 'text-blue-700', darkIconColor: 'text-blue-400',
+  },
+  {
+    code: 'RON', name: 'Román lej', symbol: 'lei', decimals: 2, flag: '/flags/ro.svg',
+    bgColor: 'bg-gradient-to-br from-yellow-50 to-amber-50', darkBgColor: DARK_BG,
+    iconColor: 'text-yellow-700', darkIconColor: 'text-yellow-400',
+  },
+  {
+    code: 'SEK', name: 'Svéd korona', symbol: 'kr', decimals: 2, cashIncrement: 1, flag: '/flags/se.svg',
+    bgColor: 'bg-gradient-to-br from-sky-50 to-yellow-50', darkBgColor: DARK_BG,
+    iconColor: 'text-sky-700', darkIconColor: 'text-yellow-300',
+  },
+  {
+    code: 'NOK', name: 'Norvég korona', symbol: 'kr', decimals: 2, cashIncrement: 1, flag: '/flags/no.svg',
+    bgColor: 'bg-gradient-to-br from-red-50 to-indigo-50', darkBgColor: DARK_BG,
+    iconColor: 'text-indigo-700', darkIconColor: 'text-indigo-300',
+  },
+  {
+    code: 'DKK', name: 'Dán korona', symbol: 'kr', decimals: 2, cashIncrement: 0.5, flag: '/flags/dk.svg',
+    bgColor: 'bg-gradient-to-br from-rose-50 to-red-50', darkBgColor: DARK_BG,
+    iconColor: 'text-red-700', darkIconColor: 'text-rose-300',
+  },
+  {
+    code: 'JPY', name: 'Japán jen', symbol: '¥', decimals: 0, flag: '/flags/jp.svg', icon: JapaneseYen,
+    bgColor: 'bg-gradient-to-br from-stone-50 to-red-50', darkBgColor: DARK_BG,
+    iconColor: 'text-red-700', darkIconColor: 'text-red-400',
+  },
+];
+
+const DEFAULT_CURRENCY_ORDER: Currency[] = ['EUR', 'USD', 'GBP', 'CHF'];
+
+const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+const isCurrencyCode = (value: unknown): value is Currency =>
+  typeof value === 'string' && CURRENCY_CODE_PATTERN.test(value);
+
+// Minor units for codes outside the registry, as the runtime knows them.
+const getIntlDecimals = (code: Currency) => {
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency: code })
+      .resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+};
+
+const currencyCache = new Map<Currency, CurrencyInfo>(
+  CURRENCIES.map((info) => [info.code, info])
+);
+
+const getCurrencyInfo = (code: Currency): CurrencyInfo => {
+  const known = currencyCache.get(code);
+  if (known) return known;
+  const fallback: CurrencyInfo = {
+    code,
+    name: code,
+    symbol: code,
+    decimals: getIntlDecimals(code),
+    flag: null,
+    bgColor: 'bg-gradient-to-br from-stone-50 to-zinc-100',
+    darkBgColor: DARK_BG,
+    iconColor: 'text-stone-600',
+    darkIconColor: 'text-zinc-300',
+  };
+  currencyCache.set(code, fallback);
+  return fallback;
+};
+
+const getCurrencySymbol = (code: Currency) => getCurrencyInfo(code).symbol;
+
+// Restores the persisted card order, dropping anything that isn't an ISO code.
+const loadCurrencyOrder = (): Currency[] => {
+  try {
+    const raw = localStorage.getItem('currencyOrder');
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (!Array.isArray(parsed)) return DEFAULT_CURRENCY_ORDER;
+    const order = parsed.filter(isCurrencyCode).filter((code, index, all) => all.indexOf(code) === index);
+    return order.length > 0 ? order : DEFAULT_CURRENCY_ORDER;
+  } catch {
+    return DEFAULT_CURRENCY_ORDER;
+  }
+};
+
+export {
+  CURRENCIES,
+  DEFAULT_CURRENCY_ORDER,
+  isCurrencyCode,
+  getCurrencyInfo,
+  getCurrencySymbol,
+  loadCurrencyOrder,
+};
@@ -0,0 +1,88 @@
+import { Currency } from './currencies';
+import { crossRate } from './rateProviders';
+import { createId } from './ids';
+
+// ============================================================================
+// Dynamic currency conversion (DCC) check
+// ============================================================================
+// A terminal abroad offering "pay in HUF" converts at its own rate. Comparing
+// that implied rate with the mid-market rate shows the hidden markup; if it
+// costs more than letting the card issuer convert, DCC should be declined.
+
+export type DccRecommendation = 'decline' | 'accept';
+
+export interface DccCheck {
+  id: string;
+  ts: number;
+  // The price in the merchant's currency.
+  foreignAmount: number;
+  foreignCurrency: Currency;
+  // What the terminal offers to charge in the home currency.
+  homeAmount: number;
+  homeCurrency: Currency;
+  // Home-currency units per 1 foreign unit, as offered and at mid-market.
+  impliedRate: number;
+  midRate: number;
+  markupPercent: number;
+  // What the card issuer would charge instead, in percent over mid-market.
+  cardMarkupPercent: number;
+  recommendation: DccRecommendation;
+}
+
+const CONFIG = {
+  STORAGE_KEY: 'dccHistory',
+  HISTORY_LIMIT: 50,
+};
+
+// Returns null until both amounts are positive and a mid-rate is known.
+const evaluateDcc = (
+  foreignAmount: number,
+  foreignCurrency: Currency,
+  homeAmount: number,
+  homeCurrency: Currency,
+  rates: Record<string, number>,
+  cardMarkupPercent = 0,
+  now = Date.now()
+): DccCheck | null => {
+  const midRate = crossRate(rates, foreignCurrency, homeCurrency);
+  if (!(foreignAmount > 0) || !(homeAmount > 0) || !midRate) return null;
+  const impliedRate = homeAmount / foreignAmount;
+  const markupPercent = (impliedRate / midRate - 1) * 100;
+  return {
+    id: createId(),
+    ts: now,
+    foreignAmount,
+    foreignCurrency,
+    homeAmount,
+    homeCurrency,
+    impliedRate,
+    midRate,
+    markupPercent,
+    cardMarkupPercent,
+    recommendation: markupPercent > cardMarkupPercent ? 'decline' : 'accept',
+  };
+};
+
+const loadDccHistory = (): DccCheck[] => {
+  try {
+    const raw = localStorage.getItem(CONFIG.STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((item) =>
+      item && typeof item.id === 'string' && typeof item.ts === 'number' &&
+      typeof item.markupPercent === 'number' && (item.recommendation === 'decline' || item.recommendation === 'accept')
+    );
+  } catch {
+    return [];
+  }
+};
+
+const saveDccHistory = (history: DccCheck[]) => {
+  try {
+    localStorage.setItem(CONFIG.STORAGE_KEY, JSON.stringify(history.slice(0, CONFIG.HISTORY_LIMIT)));
+  } catch {
+    // Ignore storage errors (e.g., private mode or quota)
+  }
+};
+
+export { evaluateDcc, loadDccHistory, saveDccHistory };
@@ -0,0 +1,145 @@
+import { Currency, getCurrencyInfo } from './currencies';
+import { openDb, requestToPromise, transactionDone } from './idb';
+import {
+  Decimal,
+  Money,
+  RateQuotes,
+  ZERO,
+  addDecimal,
+  convertMoney,
+  createMoney,
+} from './money';
+import { CsvCell, formatCsvAmount } from './exportFile';
+
+// ============================================================================
+// Expense tracker
+// ============================================================================
+// Spending logged on a trip, kept locally in IndexedDB. Each entry is valued
+// twice in the home currency: at its own day's rate, which is what it really
+// cost, and at today's rate, which is what it would cost now.
+
+export type ExpenseCategory = 'lodging' | 'food' | 'transport' | 'activities' | 'shopping' | 'other';
+
+export interface Expense {
+  id: string;
+  // YYYY-MM-DD, local time.
+  date: string;
+  category: ExpenseCategory;
+  // Plain decimal form (`1234.5`), so no precision is lost in storage.
+  amount: string;
+  currency: Currency;
+  note: string;
+  createdAt: number;
+}
+
+export interface ExpenseValue {
+  expense: Expense;
+  // Null while the day's rates are loading or unavailable.
+  atDayRate: Money | null;
+  atToday: Money | null;
+}
+
+export interface ExpenseTotal {
+  key: string;
+  atDayRate: Decimal;
+  atToday: Decimal;
+  // Some entries had no rate yet and are left out of the sums.
+  incomplete: boolean;
+}
+
+const STORE = 'expenses';
+
+const EXPENSE_CATEGORIES: { id: ExpenseCategory; label: string }[] = [
+  { id: 'lodging', label: 'Szállás' },
+  { id: 'food', label: 'Étel, ital' },
+  { id: 'transport', label: 'Közlekedés' },
+  { id: 'activities', label: 'Program' },
+  { id: 'shopping', label: 'Vásárlás' },
+  { id: 'other', label: 'Egyéb' },
+];
+
+const getCategoryLabel = (id: ExpenseCategory) =>
+  EXPENSE_CATEGORIES.find((category) => category.id === id)?.label ?? id;
+
+// Newest day first; within a day, the latest entry first.
+const loadExpenses = async (): Promise<Expense[]> => {
+  const db = await openDb();
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  const expenses = await requestToPromise<Expense[]>(store.getAll());
+  return expenses.sort((a, b) => b.date.localeCompare(a.date) || b.createdAt - a.createdAt);
+};
+
+const saveExpense = async (expense: Expense) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put(expense);
+  await transactionDone(tx);
+};
+
+const deleteExpense = async (id: string) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).delete(id);
+  await transactionDone(tx);
+};
+
+// `dayQuotes` maps each date to that day's quotes.
+const valueExpenses = (
+  expenses: Expense[],
+  home: Currency,
+  todayQuotes: RateQuotes,
+  dayQuotes: Record<string, RateQuotes | undefined>
+): ExpenseValue[] =>
+  expenses.map((expense) => {
+    const money = createMoney(expense.amount, expense.currency);
+    const quotes = dayQuotes[expense.date];
+    return {
+      expense,
+      atDayRate: quotes ? convertMoney(money, home, quotes) : null,
+      atToday: convertMoney(money, home, todayQuotes),
+    };
+  });
+
+const totalExpensesBy = (values: ExpenseValue[], keyOf: (expense: Expense) => string): ExpenseTotal[] => {
+  const totals = new Map<string, ExpenseTotal>();
+  values.forEach(({ expense, atDayRate, atToday }) => {
+    const key = keyOf(expense);
+    const total = totals.get(key) ?? { key, atDayRate: ZERO, atToday: ZERO, incomplete: false };
+    totals.set(key, {
+      key,
+      atDayRate: atDayRate ? addDecimal(total.atDayRate, atDayRate.amount) : total.atDayRate,
+      atToday: atToday ? addDecimal(total.atToday, atToday.amount) : total.atToday,
+      incomplete: total.incomplete || !atDayRate || !atToday,
+    });
+  });
+  return [...totals.values()];
+};
+
+// Amounts are rounded and padded to their currency's minor units.
+const expensesToCsvRows = (values: ExpenseValue[], home: Currency): CsvCell[][] => {
+  const amount = (money: Money | null) =>
+    (money ? formatCsvAmount(money.amount, getCurrencyInfo(money.currency).decimals) : '');
+  return [
+    ['Dátum', 'Kategória', 'Összeg', 'Deviza', 'Megjegyzés', `Napi árfolyamon (${home})`, `Mai árfolyamon (${home})`],
+    ...values.map(({ expense, atDayRate, atToday }) => [
+      expense.date,
+      getCategoryLabel(expense.category),
+      amount(createMoney(expense.amount, expense.currency)),
+      expense.currency,
+      expense.note,
+      amount(atDayRate),
+      amount(atToday),
+    ]),
+  ];
+};
+
+export {
+  EXPENSE_CATEGORIES,
+  getCategoryLabel,
+  loadExpenses,
+  saveExpense,
+  deleteExpense,
+  valueExpenses,
+  totalExpensesBy,
+  expensesToCsvRows,
+};
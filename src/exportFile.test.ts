@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { formatCsvAmount, toCsv } from './exportFile';
+import { Decimal, parseDecimal } from './money';
+
+const body = (csv: string) => csv.replace(/^\ufeff/, '');
+
+describe('toCsv', () => {
+  it('keeps typed text that looks like a formula from running', () => {
+    expect(body(toCsv([['=HYPERLINK("http://x")', '+36 1 234', '-2+3', '@SUM(A1)', 'ebéd']]))).toBe(
+      `"'=HYPERLINK(""http://x"")";'+36 1 234;'-2+3;'@SUM(A1);ebéd`
+    );
+  });
+
+  it('leaves amounts, including negative ones, as numbers', () => {
+    expect(body(toCsv([['-12,5', '1000,00', -3.5, 0.25]]))).toBe('-12,5;1000,00;-3,5;0,25');
+  });
+
+  it('quotes separators and line breaks', () => {
+    expect(body(toCsv([['a;b', 'sor\nsor', null, undefined], []]))).toBe('"a;b";"sor\nsor";;\r\n');
+  });
+});
+
+describe('formatCsvAmount', () => {
+  it('rounds and pads to the currency decimals', () => {
+    const amount = (text: string) => parseDecimal(text) as Decimal;
+    expect(formatCsvAmount(amount('12.5'), 2)).toBe('12,50');
+    expect(formatCsvAmount(amount('1000'), 2)).toBe('1000,00');
+    expect(formatCsvAmount(amount('0.125'), 2)).toBe('0,13');
+    expect(formatCsvAmount(amount('3999.6'), 0)).toBe('4000');
+  });
+});
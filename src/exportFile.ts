@@ -0,0 +1,53 @@
+import { Decimal, decimalToString, roundDecimal } from './money';
+
+// ============================================================================
+// File export
+// ============================================================================
+// CSV files are written the way Hungarian Excel opens them without an import
+// wizard: semicolon separated, decimal comma, UTF-8 with a byte order mark.
+// Text the user typed (notes, amount expressions) could start like a formula;
+// it gets a leading apostrophe so the spreadsheet shows it instead of running it.
+
+export type CsvCell = string | number | null | undefined;
+
+const CONFIG = {
+  CSV_SEPARATOR: ';',
+  BOM: '\ufeff',
+  FORMULA_START: /^[=+\-@\t\r]/,
+  // Amounts already formatted for the sheet, e.g. `-12,5`, stay numbers.
+  PLAIN_NUMBER: /^-?\d+(?:,\d+)?$/,
+};
+
+const escapeCsvCell = (cell: CsvCell) => {
+  if (cell === null || cell === undefined) return '';
+  let text = typeof cell === 'number' ? String(cell).replace('.', ',') : cell;
+  if (CONFIG.FORMULA_START.test(text) && !CONFIG.PLAIN_NUMBER.test(text)) text = `'${text}`;
+  return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// An amount as a sheet cell: rounded and padded to `scale` digits, `1000,00`.
+const formatCsvAmount = (amount: Decimal, scale: number) => {
+  const [integer, fraction = ''] = decimalToString(roundDecimal(amount, scale)).split('.');
+  const digits = fraction.padEnd(scale, '0');
+  return digits ? `${integer},${digits}` : integer;
+};
+
+const toCsv = (rows: CsvCell[][]) =>
+  CONFIG.BOM + rows.map((row) => row.map(escapeCsvCell).join(CONFIG.CSV_SEPARATOR)).join('\r\n');
+
+const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoked on the next tick; some browsers start the download asynchronously.
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const downloadCsv = (fileName: string, rows: CsvCell[][]) =>
+  downloadFile(fileName, toCsv(rows), 'text/csv;charset=utf-8');
+
+export { formatCsvAmount, toCsv, downloadFile, downloadCsv };
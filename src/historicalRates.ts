@@ -0,0 +1,77 @@
+import { getRateEndpoint } from './rateEndpoints';
+import { RateQuotes, quotesFromRates } from './money';
+
+// ============================================================================
+// Historical rate source
+// ============================================================================
+// Used when the local history store does not cover the requested period.
+// Frankfurter serves ECB reference rates for any date range since 1999.
+
+export interface RatePoint {
+  ts: number;
+  // Units of the quote currency per one unit of the currency.
+  value: number;
+}
+
+const CONFIG = {
+  HISTORY_URL: getRateEndpoint(import.meta.env, 'VITE_HISTORY_URL'),
+  EARLIEST_DATE: '1999-01-04',
+  // ECB reference rates are quoted per 1 EUR.
+  NATIVE_BASE: 'EUR',
+};
+
+const toIsoDate = (ts: number) => new Date(ts).toISOString().slice(0, 10);
+
+// ECB fixings are published at 16:00 CET; noon UTC keeps the day unambiguous.
+const fromIsoDate = (date: string) => Date.parse(`${date}T12:00:00Z`);
+
+const fetchHistoricalSeries = async (
+  currency: string,
+  quote: string,
+  since: number,
+  until: number,
+  signal?: AbortSignal
+): Promise<RatePoint[]> => {
+  const start = Math.max(since, fromIsoDate(CONFIG.EARLIEST_DATE));
+  const url = `${CONFIG.HISTORY_URL}/${toIsoDate(start)}..${toIsoDate(until)}?from=${currency}&to=${quote}`;
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error('Hálózati hiba');
+  }
+  const data = await response.json();
+  if (!data?.rates || typeof data.rates !== 'object') {
+    throw new Error('Hibás árfolyamadat');
+  }
+  return Object.entries(data.rates as Record<string, Record<string, unknown>>)
+    .map(([date, quotes]) => ({ ts: fromIsoDate(date), value: Number(quotes?.[quote]) }))
+    .filter((point) => Number.isFinite(point.ts) && Number.isFinite(point.value) && point.value > 0)
+    .sort((a, b) => a.ts - b.ts);
+};
+
+// The ECB fixing on or before `date`, EUR-based as published; the service's
+// own rebasing is rounded, so other bases are derived from these quotes.
+const fetchRatesForDate = async (
+  date: string,
+  signal?: AbortSignal
+): Promise<{ date: string; quotes: RateQuotes }> => {
+  const response = await fetch(`${CONFIG.HISTORY_URL}/${date}?from=${CONFIG.NATIVE_BASE}`, { signal });
+  if (!response.ok) {
+    throw new Error('Hálózati hiba');
+  }
+  const data = await response.json();
+  if (!data?.rates || typeof data.rates !== 'object') {
+    throw new Error('Hibás árfolyamadat');
+  }
+  const rates: Record<string, number> = {};
+  Object.entries(data.rates as Record<string, unknown>).forEach(([code, value]) => {
+    if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+      rates[code] = value;
+    }
+  });
+  return {
+    date: typeof data.date === 'string' ? data.date : date,
+    quotes: quotesFromRates(CONFIG.NATIVE_BASE, rates),
+  };
+};
+
+export { fetchHistoricalSeries, fetchRatesForDate, toIsoDate, fromIsoDate };
@@ -0,0 +1,12 @@
+// ============================================================================
+// Ids
+// ============================================================================
+// Random ids for stored items and open tabs. `crypto.randomUUID` only exists
+// in secure contexts, so plain-http previews fall back to a time-based id.
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export { createId };
@@ -0,0 +1,122 @@
+import { Currency, getCurrencyInfo } from './currencies';
+import { ExchangeRates, getProviderName } from './rateProviders';
+import {
+  Decimal,
+  Money,
+  addDecimal,
+  createMoney,
+  formatDecimal,
+  multiplyDecimal,
+  percentOf,
+  quoteRate,
+  roundDecimal,
+} from './money';
+import { CsvCell, formatCsvAmount } from './exportFile';
+
+// ============================================================================
+// Invoice and VAT (ÁFA) breakdown
+// ============================================================================
+// A foreign-currency invoice issued in Hungary must also state its VAT in
+// forints, converted at the rate valid on the fulfilment date: MNB's official
+// rate where available, otherwise ECB's. Amounts in the invoice currency are
+// rounded to its minor units, forint amounts to whole forints; the forint VAT
+// is computed from the forint net, so the forint columns add up on their own.
+
+export type VatRateId = '27' | '18' | '5' | '0' | 'reverse';
+
+export interface VatRate {
+  id: VatRateId;
+  label: string;
+  percent: number;
+  // Printed on the invoice instead of a VAT amount.
+  note?: string;
+}
+
+export interface InvoiceBreakdown {
+  vatRate: VatRate;
+  fulfilmentDate: string;
+  net: Money;
+  vat: Money;
+  gross: Money;
+  homeNet: Money;
+  homeVat: Money;
+  homeGross: Money;
+  // Home-currency units per 1 invoice-currency unit.
+  rate: Decimal;
+  rateProvider: string;
+  rateDate: string;
+}
+
+const VAT_RATES: VatRate[] = [
+  { id: '27', label: '27%', percent: 27 },
+  { id: '18', label: '18%', percent: 18 },
+  { id: '5', label: '5%', percent: 5 },
+  { id: '0', label: '0% (adómentes)', percent: 0, note: 'Adómentes' },
+  { id: 'reverse', label: 'Fordított adózás', percent: 0, note: 'Fordított adózás' },
+];
+
+const CONFIG = {
+  HOME_CURRENCY: 'HUF' as Currency,
+  // Forint amounts on the invoice are whole forints.
+  HOME_SCALE: 0,
+};
+
+// Sources whose rates are accepted for the VAT, most preferred first.
+const INVOICE_RATE_PROVIDERS = ['mnb', 'ecb'];
+
+const amountScale = (currency: Currency) =>
+  currency === CONFIG.HOME_CURRENCY ? CONFIG.HOME_SCALE : getCurrencyInfo(currency).decimals;
+
+// Null while a rate between the two currencies is missing.
+const calculateInvoice = (
+  netAmount: Decimal,
+  currency: Currency,
+  vatRateId: VatRateId,
+  rates: ExchangeRates,
+  fulfilmentDate: string
+): InvoiceBreakdown | null => {
+  const vatRate = VAT_RATES.find((item) => item.id === vatRateId) ?? VAT_RATES[0];
+  const home = CONFIG.HOME_CURRENCY;
+  const rate = quoteRate(rates.quotes, currency, home);
+  if (!rate) return null;
+
+  const scale = amountScale(currency);
+  const net = roundDecimal(netAmount, scale);
+  const vat = roundDecimal(percentOf(net, vatRate.percent), scale);
+  const homeNet = roundDecimal(multiplyDecimal(net, rate), CONFIG.HOME_SCALE);
+  const homeVat = roundDecimal(percentOf(homeNet, vatRate.percent), CONFIG.HOME_SCALE);
+
+  return {
+    vatRate,
+    fulfilmentDate,
+    net: createMoney(net, currency),
+    vat: createMoney(vat, currency),
+    gross: createMoney(addDecimal(net, vat), currency),
+    homeNet: createMoney(homeNet, home),
+    homeVat: createMoney(homeVat, home),
+    homeGross: createMoney(addDecimal(homeNet, homeVat), home),
+    rate,
+    rateProvider: getProviderName(rates.provider),
+    rateDate: rates.publishedAt ?? new Date(rates.fetchedAt).toISOString().slice(0, 10),
+  };
+};
+
+// Rows for `downloadCsv`; amounts in plain decimal form, padded to the
+// currency's minor units, the rate rounded as on screen.
+const invoiceToCsvRows = (invoice: InvoiceBreakdown): CsvCell[][] => {
+  const amount = (money: Money) => formatCsvAmount(money.amount, amountScale(money.currency));
+  return [
+    ['Tétel', invoice.net.currency, invoice.homeNet.currency],
+    ['Nettó', amount(invoice.net), amount(invoice.homeNet)],
+    [`ÁFA (${invoice.vatRate.label})`, amount(invoice.vat), amount(invoice.homeVat)],
+    ['Bruttó', amount(invoice.gross), amount(invoice.homeGross)],
+    [],
+    ['Teljesítés dátuma', invoice.fulfilmentDate],
+    ['Árfolyam', `1 ${invoice.net.currency} = ${formatDecimal(invoice.rate, 2, 6)} ${invoice.homeNet.currency}`],
+    ['Árfolyam forrása', invoice.rateProvider],
+    ['Árfolyam dátuma', invoice.rateDate],
+    ...(invoice.vatRate.note ? [['Megjegyzés', invoice.vatRate.note]] : []),
+  ];
+};
+
+export { VAT_RATES, INVOICE_RATE_PROVIDERS, calculateInvoice, invoiceToCsvRows };
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import { getLocaleNumberAmbiguity, parseLocaleNumber, readLocaleNumber } from './localeNumber';
+import { formatInputNumber } from './money';
+
+describe('parseLocaleNumber', () => {
+  it('reads a leading zero before a dot as a decimal point', () => {
+    expect(parseLocaleNumber('0.125')).toBe(0.125);
+    expect(parseLocaleNumber('0,125')).toBe(0.125);
+    expect(getLocaleNumberAmbiguity('0.125')).toBeUndefined();
+  });
+
+  it('rejects a single dot group instead of guessing', () => {
+    expect(parseLocaleNumber('1.082')).toBeNaN();
+    expect(parseLocaleNumber(String(1.082))).toBeNaN();
+    expect(getLocaleNumberAmbiguity('1.082')).toBe('„1.082” lehet 1082 és 1,082 is; tizedesjelként „,”-t használj');
+  });
+
+  it('reads unambiguous grouping and decimal commas', () => {
+    expect(parseLocaleNumber('1,082')).toBe(1.082);
+    expect(parseLocaleNumber('1 234,5')).toBe(1234.5);
+    expect(parseLocaleNumber('1.234.567')).toBe(1234567);
+    expect(parseLocaleNumber('1.234,5')).toBe(1234.5);
+  });
+
+  it('still reads a dot group as thousands in the amount field, with a warning', () => {
+    const match = readLocaleNumber('1.082', 0);
+    expect(match?.value).toBe(1082);
+    expect(match?.alternative).toBe(1.082);
+    expect(match?.ambiguity).toBeDefined();
+  });
+});
+
+describe('editing a stored alert threshold or profile fee', () => {
+  it('reads back the value the edit form was filled with', () => {
+    // An alert threshold, a profile markup and a fee.
+    [1.082, 0.125, 1234.5, 385.12, 2.5].forEach((value) => {
+      expect(parseLocaleNumber(formatInputNumber(value))).toBe(value);
+    });
+    fc.assert(fc.property(fc.double({ min: 0, max: 1e9, noNaN: true }), (value) =>
+      parseLocaleNumber(formatInputNumber(value)) === value));
+  });
+});
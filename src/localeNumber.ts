@@ -0,0 +1,219 @@
+// ============================================================================
+// Locale-aware number input
+// ============================================================================
+// Amounts are displayed with Intl.NumberFormat('hu-HU'), i.e. `1 234,56` with a
+// non-breaking space, so input must read that shape back, along with what bank
+// statements use: dot or thin-space thousands and a comma decimal. The decimal
+// and group marks come from Intl, so another locale works the same way.
+
+export interface NumberSeparators {
+  decimal: string;
+  group: string;
+}
+
+export interface LocaleNumberMatch {
+  value: number;
+  // The same number in plain `1234.56` form, for exact arithmetic.
+  plain: string;
+  // Characters consumed from the input.
+  length: number;
+  // Set when the text can also be read another way, e.g. `1.234`.
+  ambiguity?: string;
+  // The other reading when the thousands mark could as well be a decimal
+  // point, e.g. 1.234 for `1.234`.
+  alternative?: number;
+}
+
+export interface FormattedInput {
+  text: string;
+  cursor: number;
+}
+
+const CONFIG = {
+  LOCALE: 'hu-HU',
+  // Integer parts longer than this are left as typed; they would lose precision.
+  MAX_FORMATTED_DIGITS: 15,
+};
+
+// Plain, non-breaking, narrow non-breaking and thin space.
+const SPACES = ' \u00a0\u202f\u2009';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const separatorCache = new Map<string, NumberSeparators>();
+
+const getNumberSeparators = (locale = CONFIG.LOCALE): NumberSeparators => {
+  let separators = separatorCache.get(locale);
+  if (!separators) {
+    const parts = new Intl.NumberFormat(locale).formatToParts(1234567.8);
+    separators = {
+      decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.',
+      group: parts.find((part) => part.type === 'group')?.value ?? ',',
+    };
+    separatorCache.set(locale, separators);
+  }
+  return separators;
+};
+
+// The other of `.` and `,`: a thousands mark in the locale, a decimal point elsewhere.
+const getForeignMark = (decimal: string) => (decimal === ',' ? '.' : ',');
+
+interface NumberPatterns {
+  // `1,234.56` in a comma-decimal locale: the other convention, read as such.
+  foreign: RegExp;
+  // `1 234,5` or `1.234.567`: consistent thousands groups, optional decimals.
+  // A leading zero (`0.125`) is never a thousands group.
+  grouped: RegExp;
+  // `1234`, `1234,5`, `,5`; either mark counts as the decimal point.
+  plain: RegExp;
+}
+
+const patternCache = new Map<string, NumberPatterns>();
+
+const getPatterns = (locale: string): NumberPatterns => {
+  let patterns = patternCache.get(locale);
+  if (!patterns) {
+    const { decimal } = getNumberSeparators(locale);
+    const dec = escapeRegExp(decimal);
+    const foreign = escapeRegExp(getForeignMark(decimal));
+    patterns = {
+      foreign: new RegExp(`[1-9]\\d{0,2}(?:${dec}\\d{3})+${foreign}\\d+`, 'y'),
+      grouped: new RegExp(
+        `[1-9]\\d{0,2}(?:(?:[${SPACES}]\\d{3})+|(${foreign}\\d{3})+)(?!\\d)(${dec}\\d*)?`,
+        'y'
+      ),
+      plain: new RegExp(`\\d+(?:[${dec}${foreign}]\\d*)?|[${dec}${foreign}]\\d+`, 'y'),
+    };
+    patternCache.set(locale, patterns);
+  }
+  return patterns;
+};
+
+const toPlain = (digits: string, decimalMark: string, groupMarks: string) =>
+  [...digits]
+    .filter((char) => !groupMarks.includes(char))
+    .map((char) => (char === decimalMark ? '.' : char))
+    .join('');
+
+// Reads one number starting at `start`; null if there is none.
+const readLocaleNumber = (
+  input: string,
+  start: number,
+  locale = CONFIG.LOCALE
+): LocaleNumberMatch | null => {
+  const { decimal } = getNumberSeparators(locale);
+  const foreignMark = getForeignMark(decimal);
+  const patterns = getPatterns(locale);
+
+  patterns.foreign.lastIndex = start;
+  let match = patterns.foreign.exec(input);
+  if (match) {
+    const plain = toPlain(match[0], foreignMark, decimal);
+    return {
+      value: Number(plain),
+      plain,
+      length: match[0].length,
+      ambiguity: `„${match[0]}” angol formátumként olvasva, tizedesjelként „${decimal}”-t használj`,
+    };
+  }
+
+  patterns.grouped.lastIndex = start;
+  match = patterns.grouped.exec(input);
+  if (match) {
+    const [text, foreignGroups, fraction] = match;
+    const plain = toPlain(text, decimal, SPACES + foreignMark);
+    const value = Number(plain);
+    // A single dot group without decimals may just as well be a decimal point.
+    const isAmbiguous = foreignGroups !== undefined && fraction === undefined
+      && text.split(foreignMark).length === 2;
+    return {
+      value,
+      plain,
+      length: text.length,
+      ambiguity: isAmbiguous
+        ? `„${text}” ezres tagolásként olvasva (${value}), tizedesjelként „${decimal}”-t használj`
+        : undefined,
+      alternative: isAmbiguous ? Number(text.replace(foreignMark, '.')) : undefined,
+    };
+  }
+
+  patterns.plain.lastIndex = start;
+  match = patterns.plain.exec(input);
+  if (match) {
+    const plain = toPlain(match[0].replace(foreignMark, decimal), decimal, '');
+    return { value: Number(plain), plain, length: match[0].length };
+  }
+  return null;
+};
+
+const readWholeNumber = (text: string, locale: string) => {
+  const trimmed = text.trim();
+  const match = readLocaleNumber(trimmed, 0, locale);
+  return match && match.length === trimmed.length ? match : null;
+};
+
+// A single number in a plain form field; NaN when the text is not one, or when
+// it could be read two ways (`1.082`): a form has no room to show the guess.
+const parseLocaleNumber = (text: string, locale = CONFIG.LOCALE): number => {
+  const match = readWholeNumber(text, locale);
+  return match && match.alternative === undefined ? match.value : NaN;
+};
+
+// Why `parseLocaleNumber` rejected the text, when it was for being ambiguous.
+const getLocaleNumberAmbiguity = (text: string, locale = CONFIG.LOCALE): string | undefined => {
+  const match = readWholeNumber(text, locale);
+  if (match?.alternative === undefined) return undefined;
+  const { decimal } = getNumberSeparators(locale);
+  const format = new Intl.NumberFormat(locale, { maximumFractionDigits: 20 });
+  return `„${text.trim()}” lehet ${format.format(match.value)} és ${format.format(match.alternative)} is; `
+    + `tizedesjelként „${decimal}”-t használj`;
+};
+
+const isInsignificant = (char: string, group: string) => SPACES.includes(char) || char === group || /\s/.test(char);
+
+// Regroups the thousands of every number in the text as the user types, e.g.
+// `12345,6` becomes `12 345,6`. Numbers the user wrote with the other mark,
+// such as `1.234`, are left alone. The cursor stays after the same digit.
+const formatNumberInput = (text: string, cursor: number, locale = CONFIG.LOCALE): FormattedInput => {
+  const { decimal, group } = getNumberSeparators(locale);
+  const groupMarks = SPACES + group;
+  const integerFormat = new Intl.NumberFormat(locale, { maximumFractionDigits: 0 });
+  const runPattern = new RegExp(`\\d(?:[\\d${SPACES}${escapeRegExp(group)}]*\\d)?(?:${escapeRegExp(decimal)}\\d*)?`, 'g');
+
+  const formatted = text.replace(runPattern, (run, offset: number) => {
+    const neighbours = [text[offset - 1], text[offset + run.length]];
+    // Part of a number written in another shape; the parser will judge it.
+    if (neighbours.includes(getForeignMark(decimal)) || neighbours.includes(decimal)) return run;
+    const decimalIndex = run.indexOf(decimal);
+    const integerPart = [...(decimalIndex === -1 ? run : run.slice(0, decimalIndex))]
+      .filter((char) => !groupMarks.includes(char))
+      .join('');
+    if (integerPart.length > CONFIG.MAX_FORMATTED_DIGITS || (integerPart.length > 1 && integerPart.startsWith('0'))) {
+      return run;
+    }
+    return integerFormat.format(Number(integerPart)) + (decimalIndex === -1 ? '' : run.slice(decimalIndex));
+  });
+  if (formatted === text) return { text, cursor };
+
+  // Count the digits and marks before the cursor, plus any spaces typed right
+  // before it, and find the same spot in the new text.
+  let significant = 0;
+  for (let i = 0; i < cursor; i++) {
+    if (!isInsignificant(text[i], group)) significant++;
+  }
+  let trailingSpaces = 0;
+  for (let i = cursor - 1; i >= 0 && isInsignificant(text[i], group); i--) trailingSpaces++;
+
+  let position = 0;
+  while (significant > 0 && position < formatted.length) {
+    if (!isInsignificant(formatted[position], group)) significant--;
+    position++;
+  }
+  while (trailingSpaces > 0 && position < formatted.length && isInsignificant(formatted[position], group)) {
+    trailingSpaces--;
+    position++;
+  }
+  return { text: formatted, cursor: position };
+};
+
+export { getNumberSeparators, readLocaleNumber, parseLocaleNumber, getLocaleNumberAmbiguity, formatNumberInput };
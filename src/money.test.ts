@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import {
+  Decimal,
+  RateQuotes,
+  addDecimal,
+  compareDecimal,
+  convertMoney,
+  createMoney,
+  decimalToNumber,
+  decimalToString,
+  formatDecimal,
+  multiplyDecimal,
+  parseDecimal,
+  quoteRate,
+  roundDecimal,
+  subtractDecimal,
+} from './money';
+import { roundAmount } from './rounding';
+import { evaluateAmountExpression } from './amountExpression';
+
+const decimal = (maxScale = 12): fc.Arbitrary<Decimal> =>
+  fc.record({
+    units: fc.bigInt({ min: -(10n ** 24n), max: 10n ** 24n }),
+    scale: fc.integer({ min: 0, max: maxScale }),
+  }).map((value) => parseDecimal(decimalToString(value)) as Decimal);
+
+// What the amount field accepts: up to 12 digits, at most 4 of them decimals.
+const amount = fc.record({
+  units: fc.bigInt({ min: 0n, max: 999_999_999_999n }),
+  scale: fc.integer({ min: 0, max: 4 }),
+}).map((value) => parseDecimal(decimalToString(value)) as Decimal);
+
+// A published quote with up to 6 significant digits, from 0.0001 to 99 999.
+const quote = fc.record({
+  units: fc.integer({ min: 1, max: 999_999 }),
+  scale: fc.integer({ min: 1, max: 10 }),
+}).map(({ units, scale }) => decimalToString({ units: BigInt(units), scale }));
+
+const quoteTable = fc.record({ eur: quote, usd: quote, inverse: fc.boolean() }).map(
+  ({ eur, usd, inverse }): RateQuotes => ({ base: 'HUF', values: { HUF: '1', EUR: eur, USD: usd }, inverse })
+);
+
+const equal = (a: Decimal, b: Decimal) => compareDecimal(a, b) === 0;
+
+describe('parseDecimal and decimalToString', () => {
+  it('round-trips every decimal through its string form', () => {
+    fc.assert(fc.property(decimal(), (value) => equal(parseDecimal(decimalToString(value)) as Decimal, value)));
+  });
+
+  it('reads a float as its shortest decimal form', () => {
+    fc.assert(fc.property(fc.double({ noNaN: true, noDefaultInfinity: true }), (value) => {
+      const parsed = parseDecimal(value);
+      return parsed !== null && decimalToNumber(parsed) === (value === 0 ? 0 : value);
+    }));
+    expect(decimalToString(parseDecimal(385.12) as Decimal)).toBe('385.12');
+  });
+});
+
+describe('arithmetic', () => {
+  it('adds associatively and commutatively', () => {
+    fc.assert(fc.property(decimal(), decimal(), decimal(), (a, b, c) =>
+      equal(addDecimal(addDecimal(a, b), c), addDecimal(a, addDecimal(b, c)))
+      && equal(addDecimal(a, b), addDecimal(b, a))));
+  });
+
+  it('multiplies associatively and distributes over addition', () => {
+    fc.assert(fc.property(decimal(6), decimal(6), decimal(6), (a, b, c) =>
+      equal(multiplyDecimal(multiplyDecimal(a, b), c), multiplyDecimal(a, multiplyDecimal(b, c)))
+      && equal(multiplyDecimal(a, addDecimal(b, c)), addDecimal(multiplyDecimal(a, b), multiplyDecimal(a, c)))));
+  });
+
+  it('undoes an addition with a subtraction', () => {
+    fc.assert(fc.property(decimal(), decimal(), (a, b) => equal(subtractDecimal(addDecimal(a, b), b), a)));
+  });
+});
+
+describe('convertMoney', () => {
+  it('converts at a published quote without any drift', () => {
+    const ecb: RateQuotes = { base: 'EUR', values: { EUR: '1', HUF: '393.9' } };
+    const converted = convertMoney(createMoney('100', 'EUR'), 'HUF', ecb);
+    expect(converted && decimalToString(converted.amount)).toBe('39390');
+    expect(converted && roundAmount(converted, 'bank').isRounded).toBe(false);
+
+    const mnb: RateQuotes = { base: 'HUF', values: { HUF: '1', EUR: '393.9' }, inverse: true };
+    expect(decimalToString(quoteRate(mnb, 'EUR', 'HUF') as Decimal)).toBe('393.9');
+  });
+
+  it('returns to the original amount after converting there and back', () => {
+    fc.assert(fc.property(amount, quoteTable, fc.constantFrom('EUR', 'USD'), (value, quotes, currency) => {
+      const there = convertMoney(createMoney(value, 'HUF'), currency, quotes);
+      const back = there && convertMoney(there, 'HUF', quotes);
+      return back !== null && equal(roundDecimal(back.amount, 8), value);
+    }));
+  });
+
+  it('gives the same result directly as through a third currency', () => {
+    fc.assert(fc.property(amount, quoteTable, (value, quotes) => {
+      const direct = convertMoney(createMoney(value, 'EUR'), 'USD', quotes);
+      const viaHuf = convertMoney(convertMoney(createMoney(value, 'EUR'), 'HUF', quotes)!, 'USD', quotes);
+      return direct !== null && viaHuf !== null
+        && equal(roundDecimal(direct.amount, 8), roundDecimal(viaHuf.amount, 8));
+    }));
+  });
+});
+
+describe('formatDecimal', () => {
+  it('formats amounts the amount field reads back unchanged', () => {
+    fc.assert(fc.property(amount, (value) => {
+      const result = evaluateAmountExpression(formatDecimal(value, 0, value.scale));
+      return result !== null && result.ok && equal(result.exact, value);
+    }));
+  });
+});
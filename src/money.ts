@@ -0,0 +1,218 @@
+import { Currency } from './currencies';
+import { getNumberSeparators } from './localeNumber';
+
+// ============================================================================
+// Exact decimal money
+// ============================================================================
+// Amounts are kept as a BigInt count of 10^-scale units, so adding,
+// multiplying and rounding are exact; binary floats drift in the last digits
+// of large amounts. Division, needed for cross rates, rounds once to
+// CONFIG.DIVISION_SCALE places, half away from zero.
+//
+// Rates are kept as each source published them (`RateQuotes`), in its own
+// base and direction, so a conversion is one multiplication and one division
+// of published figures. JSON sources send numbers; `parseDecimal` takes their
+// shortest decimal form (385.12, not 385.1199999999999), which is what the
+// source published.
+
+export interface Decimal {
+  // The value is units / 10^scale.
+  units: bigint;
+  scale: number;
+}
+
+export interface Money {
+  amount: Decimal;
+  currency: Currency;
+}
+
+// A source's quotes as published, as plain decimal strings in its own base:
+// units of each currency per 1 `base` (ECB: `{ EUR: '1', HUF: '393.9' }`), or
+// with `inverse`, the price of 1 unit in `base` (MNB: `{ HUF: '1', EUR: '393.9' }`).
+export interface RateQuotes {
+  base: Currency;
+  values: Record<string, string>;
+  inverse?: boolean;
+}
+
+const CONFIG = {
+  // Places kept after a division; far past any minor unit or display.
+  DIVISION_SCALE: 20,
+};
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+const ZERO: Decimal = { units: 0n, scale: 0 };
+const ONE: Decimal = { units: 1n, scale: 0 };
+const HUNDRED: Decimal = { units: 100n, scale: 0 };
+
+const pow10 = (exponent: number) => 10n ** BigInt(exponent);
+
+// Drops trailing zeros so scales stay small: 1.50 becomes 1.5.
+const normalize = (value: Decimal): Decimal => {
+  let { units, scale } = value;
+  while (scale > 0 && units % 10n === 0n) {
+    units /= 10n;
+    scale--;
+  }
+  return units === 0n ? ZERO : { units, scale };
+};
+
+// Integer division rounding half away from zero, like Math.round on positives.
+const divideRounded = (numerator: bigint, denominator: bigint) => {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  const absRemainder = remainder < 0n ? -remainder : remainder;
+  const absDenominator = denominator < 0n ? -denominator : denominator;
+  if (absRemainder * 2n < absDenominator) return quotient;
+  return (numerator < 0n) !== (denominator < 0n) ? quotient - 1n : quotient + 1n;
+};
+
+// Accepts plain `1234.56`, exponent form and finite numbers; null otherwise.
+const parseDecimal = (value: string | number): Decimal | null => {
+  if (typeof value === 'number' && !Number.isFinite(value)) return null;
+  const match = DECIMAL_PATTERN.exec(String(value).trim());
+  if (!match || (!match[2] && !match[3])) return null;
+  const [, sign, integer, fraction = '', exponent = '0'] = match;
+  const units = BigInt(`${integer}${fraction}` || '0');
+  let scale = fraction.length - Number(exponent);
+  let scaled = units;
+  if (scale < 0) {
+    scaled = units * pow10(-scale);
+    scale = 0;
+  }
+  return normalize({ units: sign === '-' ? -scaled : scaled, scale });
+};
+
+const toDecimal = (value: Decimal | number | string): Decimal =>
+  typeof value === 'object' ? value : parseDecimal(value) ?? ZERO;
+
+const rescale = (value: Decimal, scale: number) => value.units * pow10(scale - value.scale);
+
+const addDecimal = (a: Decimal, b: Decimal): Decimal => {
+  const scale = Math.max(a.scale, b.scale);
+  return normalize({ units: rescale(a, scale) + rescale(b, scale), scale });
+};
+
+const negateDecimal = (value: Decimal): Decimal => ({ units: -value.units, scale: value.scale });
+
+const subtractDecimal = (a: Decimal, b: Decimal) => addDecimal(a, negateDecimal(b));
+
+const multiplyDecimal = (a: Decimal, b: Decimal): Decimal =>
+  normalize({ units: a.units * b.units, scale: a.scale + b.scale });
+
+const divideDecimal = (a: Decimal, b: Decimal, scale = CONFIG.DIVISION_SCALE): Decimal => {
+  if (b.units === 0n) throw new Error('Nullával nem lehet osztani');
+  const exponent = scale - a.scale + b.scale;
+  const units = exponent >= 0
+    ? divideRounded(a.units * pow10(exponent), b.units)
+    : divideRounded(a.units, b.units * pow10(-exponent));
+  return normalize({ units, scale });
+};
+
+// `percent` per cent of `amount`; a fee or margin of 2.5 is taken as 2.5%.
+const percentOf = (amount: Decimal, percent: Decimal | number) =>
+  divideDecimal(multiplyDecimal(amount, toDecimal(percent)), HUNDRED);
+
+const compareDecimal = (a: Decimal, b: Decimal) => {
+  const scale = Math.max(a.scale, b.scale);
+  const difference = rescale(a, scale) - rescale(b, scale);
+  return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+};
+
+const roundDecimal = (value: Decimal, scale: number): Decimal =>
+  value.scale <= scale
+    ? value
+    : normalize({ units: divideRounded(value.units, pow10(value.scale - scale)), scale });
+
+// To the nearest multiple of `increment`, e.g. 5 for Hungarian cash.
+const roundToIncrement = (value: Decimal, increment: Decimal): Decimal =>
+  multiplyDecimal(divideDecimal(value, increment, 0), increment);
+
+const decimalToString = (value: Decimal): string => {
+  const negative = value.units < 0n;
+  const digits = (negative ? -value.units : value.units).toString().padStart(value.scale + 1, '0');
+  const integer = digits.slice(0, digits.length - value.scale);
+  const fraction = digits.slice(digits.length - value.scale);
+  return `${negative ? '-' : ''}${integer}${fraction ? `.${fraction}` : ''}`;
+};
+
+const decimalToNumber = (value: Decimal) => Number(decimalToString(value));
+
+// Like Intl.NumberFormat with min/max fraction digits, without a float in between.
+const formatDecimal = (value: Decimal, minDigits: number, maxDigits: number, locale = 'hu-HU'): string => {
+  const rounded = roundDecimal(value, maxDigits);
+  const [integer, fraction = ''] = decimalToString(rounded).replace('-', '').split('.');
+  const paddedFraction = fraction.padEnd(minDigits, '0');
+  const sign = rounded.units < 0n ? '-' : '';
+  const grouped = new Intl.NumberFormat(locale).format(BigInt(integer));
+  return `${sign}${grouped}${paddedFraction ? `${getNumberSeparators(locale).decimal}${paddedFraction}` : ''}`;
+};
+
+// A stored float as a form field shows it, every digit kept: 1.082 → `1,082`.
+const formatInputNumber = (value: number, locale = 'hu-HU'): string => {
+  const decimal = parseDecimal(value);
+  return decimal ? formatDecimal(decimal, 0, decimal.scale, locale) : '';
+};
+
+const createMoney = (amount: Decimal | number | string, currency: Currency): Money => ({
+  amount: toDecimal(amount),
+  currency,
+});
+
+// Units of `to` per 1 `from` as a numerator/denominator pair of published
+// quotes; null when either currency is missing.
+const quoteFraction = (quotes: RateQuotes, from: Currency, to: Currency): [Decimal, Decimal] | null => {
+  const fromQuote = parseDecimal(quotes.values[from] ?? NaN);
+  const toQuote = parseDecimal(quotes.values[to] ?? NaN);
+  if (!fromQuote || !toQuote || fromQuote.units === 0n || toQuote.units === 0n) return null;
+  return quotes.inverse ? [fromQuote, toQuote] : [toQuote, fromQuote];
+};
+
+// Units of `to` per 1 `from`, e.g. 393.9 for EUR to HUF.
+const quoteRate = (quotes: RateQuotes, from: Currency, to: Currency): Decimal | null => {
+  if (from === to) return ONE;
+  const fraction = quoteFraction(quotes, from, to);
+  return fraction ? divideDecimal(fraction[0], fraction[1]) : null;
+};
+
+// One division per conversion, so 100 EUR at 393.9 is exactly 39 390 HUF.
+// Null when either currency has no rate.
+const convertMoney = (money: Money, to: Currency, quotes: RateQuotes): Money | null => {
+  if (money.currency === to) return money;
+  const fraction = quoteFraction(quotes, money.currency, to);
+  if (!fraction) return null;
+  return { amount: divideDecimal(multiplyDecimal(money.amount, fraction[0]), fraction[1]), currency: to };
+};
+
+// For numbers that were read straight from a source ("units per 1 `base`").
+const quotesFromRates = (base: Currency, rates: Record<string, number>): RateQuotes => {
+  const values: Record<string, string> = { [base]: '1' };
+  Object.entries(rates).forEach(([code, rate]) => {
+    const quote = parseDecimal(rate);
+    if (quote && quote.units > 0n) values[code] = decimalToString(quote);
+  });
+  return { base, values };
+};
+
+export {
+  ZERO,
+  parseDecimal,
+  addDecimal,
+  subtractDecimal,
+  negateDecimal,
+  multiplyDecimal,
+  divideDecimal,
+  percentOf,
+  compareDecimal,
+  roundDecimal,
+  roundToIncrement,
+  decimalToString,
+  decimalToNumber,
+  formatDecimal,
+  formatInputNumber,
+  createMoney,
+  convertMoney,
+  quoteRate,
+  quotesFromRates,
+};
@@ -0,0 +1,161 @@
+import { Currency } from './currencies';
+import { ExchangeRates, crossRate } from './rateProviders';
+import { ReferenceRates } from './referenceRates';
+
+// ============================================================================
+// Rate alerts
+// ============================================================================
+// Alerts are edge-triggered: one fires when its condition becomes true and
+// re-arms once the condition clears, so a rate sitting above a threshold
+// doesn't notify on every refresh.
+
+export type AlertCondition = 'above' | 'below' | 'dailyMove';
+
+export interface AlertFiring {
+  ts: number;
+  rate: number;
+  message: string;
+}
+
+export interface RateAlert {
+  id: string;
+  currency: Currency;
+  base: Currency;
+  condition: AlertCondition;
+  // A rate for above/below, a percentage for dailyMove.
+  threshold: number;
+  paused: boolean;
+  createdAt: number;
+  // Whether the condition held at the last check.
+  isTriggered: boolean;
+  history: AlertFiring[];
+}
+
+export interface FiredAlert {
+  alert: RateAlert;
+  firing: AlertFiring;
+}
+
+const CONFIG = {
+  STORAGE_KEY: 'rateAlerts',
+  HISTORY_LIMIT: 20,
+};
+
+const CONDITION_LABELS: Record<AlertCondition, string> = {
+  above: 'fölé megy',
+  below: 'alá megy',
+  dailyMove: 'napi mozgás legalább',
+};
+
+const formatValue = (value: number) =>
+  new Intl.NumberFormat('hu-HU', { minimumFractionDigits: 2, maximumFractionDigits: 4 }).format(value);
+
+const describeAlert = (alert: Pick<RateAlert, 'currency' | 'base' | 'condition' | 'threshold'>) =>
+  alert.condition === 'dailyMove'
+    ? `${alert.currency}/${alert.base} ${CONDITION_LABELS.dailyMove} ±${formatValue(alert.threshold)}%`
+    : `${alert.currency}/${alert.base} ${formatValue(alert.threshold)} ${CONDITION_LABELS[alert.condition]}`;
+
+const loadAlerts = (): RateAlert[] => {
+  try {
+    const raw = localStorage.getItem(CONFIG.STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((item) =>
+      item && typeof item.id === 'string' && typeof item.currency === 'string' &&
+      typeof item.threshold === 'number' && item.condition in CONDITION_LABELS
+    ).map((item) => ({
+      ...item,
+      base: typeof item.base === 'string' ? item.base : 'HUF',
+      paused: item.paused === true,
+      isTriggered: item.isTriggered === true,
+      history: Array.isArray(item.history) ? item.history : [],
+    }));
+  } catch {
+    return [];
+  }
+};
+
+const saveAlerts = (alerts: RateAlert[]) => {
+  try {
+    localStorage.setItem(CONFIG.STORAGE_KEY, JSON.stringify(alerts));
+  } catch {
+    // Ignore storage errors (e.g., private mode or quota)
+  }
+};
+
+// Checks every active alert against fresh rates. `previousClose` is needed
+// for daily-move alerts; they are skipped when it is unavailable.
+const evaluateAlerts = (
+  alerts: RateAlert[],
+  rates: ExchangeRates,
+  previousClose: ReferenceRates | null,
+  now = Date.now()
+): { alerts: RateAlert[]; fired: FiredAlert[] } => {
+  const fired: FiredAlert[] = [];
+  const updated = alerts.map((alert) => {
+    if (alert.paused) return alert;
+    const rate = crossRate(rates.rates, alert.currency, alert.base);
+    if (!rate) return alert;
+
+    let holds: boolean;
+    let message: string;
+    if (alert.condition === 'dailyMove') {
+      const close = previousClose ? crossRate(previousClose.rates, alert.currency, alert.base) : 0;
+      if (!close) return alert;
+      const movePercent = ((rate - close) / close) * 100;
+      holds = Math.abs(movePercent) >= alert.threshold;
+      message = `${alert.currency}/${alert.base} ${movePercent > 0 ? '+' : ''}${formatValue(movePercent)}% ma (${formatValue(rate)})`;
+    } else {
+      holds = alert.condition === 'above' ? rate > alert.threshold : rate < alert.threshold;
+      message = `${alert.currency}/${alert.base} most ${formatValue(rate)} (${describeAlert(alert)})`;
+    }
+
+    if (!holds) {
+      return alert.isTriggered ? { ...alert, isTriggered: false } : alert;
+    }
+    if (alert.isTriggered) return alert;
+
+    const firing: AlertFiring = { ts: now, rate, message };
+    const next: RateAlert = {
+      ...alert,
+      isTriggered: true,
+      history: [firing, ...alert.history].slice(0, CONFIG.HISTORY_LIMIT),
+    };
+    fired.push({ alert: next, firing });
+    return next;
+  });
+  return { alerts: updated, fired };
+};
+
+const requestNotificationPermission = async () => {
+  if (typeof Notification === 'undefined') return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  try {
+    return await Notification.requestPermission();
+  } catch {
+    return 'denied';
+  }
+};
+
+const showAlertNotification = ({ firing }: FiredAlert) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  try {
+    new Notification('Árfolyam-riasztás', {
+      body: firing.message,
+      icon: '/icons/icon-192x192.png',
+    });
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker.
+    console.warn('Értesítés megjelenítése sikertelen:', error);
+  }
+};
+
+export {
+  CONDITION_LABELS,
+  describeAlert,
+  loadAlerts,
+  saveAlerts,
+  evaluateAlerts,
+  requestNotificationPermission,
+  showAlertNotification,
+};
@@ -0,0 +1,32 @@
+// ============================================================================
+// Upstream rate endpoints
+// ============================================================================
+// Defaults for the rate and history sources. Each can be overridden at build
+// time with the matching VITE_* variable, e.g. to point at local stub servers.
+// Also read by vite.config.ts, so keep this module free of browser APIs.
+//
+// ECB and MNB send no CORS headers, and the MNB SOAP call (a `text/xml` POST
+// with a `SOAPAction` header) needs a preflight besides, so the browser
+// reaches both through same-origin paths. The dev and preview servers forward
+// them upstream; in production the host must (see README).
+
+const RATE_PROXIES = {
+  '/api/ecb': 'https://www.ecb.europa.eu/stats/eurofxref',
+  '/api/mnb': 'https://www.mnb.hu',
+};
+
+const RATE_ENDPOINTS = {
+  VITE_OPEN_ER_API_URL: 'https://open.er-api.com/v6/latest',
+  VITE_ECB_URL: '/api/ecb/eurofxref-daily.xml',
+  VITE_MNB_URL: '/api/mnb/arfolyamok.asmx',
+  VITE_HISTORY_URL: 'https://api.frankfurter.app',
+};
+
+export type RateEndpointKey = keyof typeof RATE_ENDPOINTS;
+
+const getRateEndpoint = (env: Record<string, unknown>, key: RateEndpointKey) => {
+  const override = env[key];
+  return typeof override === 'string' && override ? override : RATE_ENDPOINTS[key];
+};
+
+export { RATE_PROXIES, RATE_ENDPOINTS, getRateEndpoint };
@@ -0,0 +1,97 @@
+import { openDb, requestToPromise, transactionDone } from './idb';
+import { ExchangeRates } from './rateProviders';
+
+// ============================================================================
+// Local rate history (IndexedDB)
+// ============================================================================
+// Every distinct snapshot is stored with its timestamp. Older data is thinned
+// out: every tick for the last 24h, one per hour up to 30 days, one per day
+// after that.
+
+export interface RateSnapshot {
+  ts: number;
+  provider: string;
+  // Snapshots keep the base they were fetched in; compare them with `crossRate`.
+  base: ExchangeRates['base'];
+  rates: ExchangeRates['rates'];
+  // Missing on snapshots stored before quotes were kept.
+  quotes?: ExchangeRates['quotes'];
+}
+
+const STORE = 'rateSnapshots';
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// How many days of history the card sparklines show.
+const SPARKLINE_DAYS = 7;
+
+const CONFIG = {
+  KEEP_ALL_MS: DAY_MS,
+  KEEP_HOURLY_MS: 30 * DAY_MS,
+};
+
+const sameRates = (a: RateSnapshot, b: ExchangeRates) =>
+  a.provider === b.provider &&
+  a.base === b.base &&
+  Object.keys(a.rates).length === Object.keys(b.rates).length &&
+  Object.keys(b.rates).every((code) => a.rates[code] === b.rates[code]);
+
+// Returns the ts of snapshots to drop; the newest snapshot of each bucket survives.
+const findThinnedOut = (snapshots: RateSnapshot[], now: number): number[] => {
+  const keptBuckets = new Set<string>();
+  const dropped: number[] = [];
+  // Newest first, so the first snapshot seen in a bucket is the one kept.
+  [...snapshots].sort((a, b) => b.ts - a.ts).forEach((snapshot) => {
+    const age = now - snapshot.ts;
+    if (age <= CONFIG.KEEP_ALL_MS) return;
+    const bucket = age <= CONFIG.KEEP_HOURLY_MS
+      ? `h${Math.floor(snapshot.ts / HOUR_MS)}`
+      : `d${Math.floor(snapshot.ts / DAY_MS)}`;
+    if (keptBuckets.has(bucket)) {
+      dropped.push(snapshot.ts);
+    } else {
+      keptBuckets.add(bucket);
+    }
+  });
+  return dropped;
+};
+
+const loadRateHistory = async (since = 0): Promise<RateSnapshot[]> => {
+  const db = await openDb();
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  const snapshots = await requestToPromise<RateSnapshot[]>(
+    store.getAll(IDBKeyRange.lowerBound(since))
+  );
+  // Snapshots stored before base tracking were HUF-based and lacked HUF itself.
+  return snapshots
+    .map((snapshot) => {
+      const base = snapshot.base ?? 'HUF';
+      return { ...snapshot, base, rates: { [base]: 1, ...snapshot.rates } };
+    })
+    .sort((a, b) => a.ts - b.ts);
+};
+
+// Stores the snapshot unless it matches the latest one, then thins old data.
+const recordRateSnapshot = async (rates: ExchangeRates, ts = Date.now()) => {
+  const snapshots = await loadRateHistory();
+  const latest = snapshots[snapshots.length - 1];
+  if (latest && sameRates(latest, rates)) return;
+
+  const snapshot: RateSnapshot = {
+    ts,
+    provider: rates.provider,
+    base: rates.base,
+    rates: { ...rates.rates },
+    quotes: rates.quotes,
+  };
+  const dropped = findThinnedOut([...snapshots, snapshot], ts);
+
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  store.put(snapshot);
+  dropped.forEach((key) => store.delete(key));
+  await transactionDone(tx);
+};
+
+export { loadRateHistory, recordRateSnapshot, DAY_MS, SPARKLINE_DAYS };
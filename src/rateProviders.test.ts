@@ -0,0 +1,201 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  RateProvider,
+  ecbProvider,
+  fetchRatesWithFailover,
+  mnbProvider,
+  openErApiProvider,
+  parseEcbXml,
+  parseMnbXml,
+} from './rateProviders';
+
+const ECB_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <gesmes:subject>Reference rates</gesmes:subject>
+  <Cube>
+    <Cube time="2026-10-16">
+      <Cube currency="USD" rate="1.0812"/>
+      <Cube currency="JPY" rate="162.45"/>
+      <Cube currency="GBP" rate="0.8301"/>
+      <Cube currency="CHF" rate="0.9402"/>
+      <Cube currency="HUF" rate="393.90"/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`;
+
+const mnbDays = (days: string) => `<MNBCurrentExchangeRates>${days}</MNBCurrentExchangeRates>`;
+
+const MNB_DAY = `<Day date="2026-10-16">
+  <Rate unit="1" curr="EUR">393,90</Rate>
+  <Rate unit="1" curr="USD">364,31</Rate>
+  <Rate unit="1" curr="GBP">474,52</Rate>
+  <Rate unit="1" curr="CHF">418,95</Rate>
+  <Rate unit="100" curr="JPY">242,47</Rate>
+</Day>`;
+
+// The SOAP service returns the rate document as an escaped string.
+const mnbSoap = (document: string) => `<?xml version="1.0" encoding="utf-8"?>
+<s:Envelope xmlns:s="http://schemas.xmlsoap.org/soap/envelope/">
+  <s:Body>
+    <GetCurrentExchangeRatesResponse xmlns="http://www.mnb.hu/webservices/">
+      <GetCurrentExchangeRatesResult>${document.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</GetCurrentExchangeRatesResult>
+    </GetCurrentExchangeRatesResponse>
+  </s:Body>
+</s:Envelope>`;
+
+const OPEN_ER_API_BODY = {
+  result: 'success',
+  base_code: 'HUF',
+  time_last_update_unix: 1792195201,
+  rates: { HUF: 1, EUR: 0.002539, USD: 0.002745, GBP: 0.002107, CHF: 0.002387 },
+};
+
+// Answers each provider's URL with the matching handler; any other URL is a network error.
+const stubFetch = (handlers: Record<string, (init?: RequestInit) => Promise<Response> | Response>) => {
+  const fetchMock = vi.fn((url: string, init?: RequestInit) => {
+    const match = Object.keys(handlers).find((part) => url.includes(part));
+    return match ? Promise.resolve(handlers[match](init)) : Promise.reject(new TypeError('Failed to fetch'));
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+// Never answers; rejects like the browser once the request is aborted.
+const hang = (init?: RequestInit) => new Promise<Response>((_, reject) => {
+  init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+});
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('parseEcbXml', () => {
+  it('keeps the published EUR quotes as written', () => {
+    const result = parseEcbXml(ECB_XML);
+    expect(result.quotes).toEqual({
+      base: 'EUR',
+      values: { EUR: '1', USD: '1.0812', JPY: '162.45', GBP: '0.8301', CHF: '0.9402', HUF: '393.9' },
+    });
+    expect(result.publishedAt).toBe('2026-10-16');
+    expect(result.sourceUpdatedAt).toBe(Date.parse('2026-10-16T15:00:00Z'));
+  });
+
+  it('rejects broken XML and missing currencies', () => {
+    expect(() => parseEcbXml('<Cube><Cube')).toThrow('Hibás ECB XML');
+    expect(() => parseEcbXml(ECB_XML.replace(/<Cube currency="HUF"[^>]*>/, '')))
+      .toThrow('Hiányzó vagy hibás árfolyam: HUF');
+  });
+});
+
+describe('parseMnbXml', () => {
+  // A Monday, after the Friday fixing of MNB_DAY.
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T12:00:00'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('unwraps the SOAP response and divides out the unit', () => {
+    const result = parseMnbXml(mnbSoap(mnbDays(MNB_DAY)));
+    expect(result.quotes).toEqual({
+      base: 'HUF',
+      values: { HUF: '1', EUR: '393.9', USD: '364.31', GBP: '474.52', CHF: '418.95', JPY: '2.4247' },
+      inverse: true,
+    });
+    expect(result.publishedAt).toBe('2026-10-16');
+    expect(result.carriedForward).toBe(true);
+  });
+
+  it('carries a currency missing from the latest day forward', () => {
+    parseMnbXml(mnbDays(MNB_DAY));
+    const nextDay = MNB_DAY
+      .replace('2026-10-16', '2026-10-19')
+      .replace('393,90', '394,15')
+      .replace(/<Rate unit="1" curr="CHF">[^<]*<\/Rate>/, '');
+    const result = parseMnbXml(mnbDays(nextDay));
+    expect(result.quotes.values.EUR).toBe('394.15');
+    expect(result.quotes.values.CHF).toBe('418.95');
+    expect(result.publishedAt).toBe('2026-10-19');
+    expect(result.carriedForward).toBe(false);
+  });
+
+  it('drops cached reciprocals from before quotes were strings', () => {
+    localStorage.setItem('mnbLastRates', JSON.stringify({ CHF: { value: 0.002387, date: '2026-10-15' } }));
+    const withoutChf = MNB_DAY.replace(/<Rate unit="1" curr="CHF">[^<]*<\/Rate>/, '');
+    expect(() => parseMnbXml(mnbDays(withoutChf))).toThrow('Hiányzó vagy hibás árfolyam: CHF');
+  });
+
+  it('rejects broken XML and empty days', () => {
+    expect(() => parseMnbXml('<MNBCurrentExchangeRates><Day')).toThrow('Hibás MNB XML');
+    expect(() => parseMnbXml(mnbDays(''))).toThrow('Nincs közzétett MNB árfolyam');
+  });
+});
+
+describe('fetchRatesWithFailover', () => {
+  it('falls back to the next provider when one fails', async () => {
+    stubFetch({
+      'open.er-api.com': () => new Response('', { status: 503 }),
+      '/api/ecb/': () => new Response(ECB_XML),
+    });
+    const { rates, failures } = await fetchRatesWithFailover([openErApiProvider, ecbProvider], 'HUF');
+    expect(rates.provider).toBe('ecb');
+    expect(rates.base).toBe('HUF');
+    expect(rates.quotes.values.HUF).toBe('393.9');
+    expect(rates.rates.EUR).toBeCloseTo(1 / 393.9, 12);
+    expect(failures).toEqual([{ provider: 'open-er-api', message: 'Hálózati hiba' }]);
+  });
+
+  it('moves on from malformed payloads', async () => {
+    stubFetch({
+      'open.er-api.com': () => Response.json({ result: 'success', rates: { HUF: 1, EUR: 'n/a' } }),
+      '/api/ecb/': () => new Response('<html>Service unavailable</html'),
+      '/api/mnb/': () => new Response(mnbSoap(mnbDays(MNB_DAY))),
+    });
+    const { rates, failures } = await fetchRatesWithFailover([openErApiProvider, ecbProvider, mnbProvider], 'HUF');
+    expect(rates.provider).toBe('mnb');
+    expect(failures).toEqual([
+      { provider: 'open-er-api', message: 'Hiányzó vagy hibás árfolyam: EUR' },
+      { provider: 'ecb', message: 'Hibás ECB XML' },
+    ]);
+  });
+
+  it('times out a provider that does not answer', async () => {
+    const fetchMock = stubFetch({
+      '/api/ecb/': hang,
+      'open.er-api.com': () => Response.json(OPEN_ER_API_BODY),
+    });
+    const slowEcb: RateProvider = { ...ecbProvider, timeoutMs: 20 };
+    const { rates, failures } = await fetchRatesWithFailover([slowEcb, openErApiProvider], 'EUR');
+    expect(failures).toEqual([{ provider: 'ecb', message: 'Időtúllépés' }]);
+    expect(rates.provider).toBe('open-er-api');
+    expect(rates.base).toBe('EUR');
+    expect(rates.sourceUpdatedAt).toBe(1792195201000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports every failure when no provider answers', async () => {
+    stubFetch({ 'open.er-api.com': () => Response.json({ result: 'error', 'error-type': 'quota-reached' }) });
+    await expect(fetchRatesWithFailover([openErApiProvider, ecbProvider], 'HUF')).rejects.toThrow(
+      'open.er-api.com: Szolgáltatói hiba: quota-reached; EKB referencia: Failed to fetch'
+    );
+  });
+
+  it('stops the chain when the caller aborts', async () => {
+    const fetchMock = stubFetch({ 'open.er-api.com': hang, '/api/ecb/': () => new Response(ECB_XML) });
+    const controller = new AbortController();
+    const request = fetchRatesWithFailover([openErApiProvider, ecbProvider], 'HUF', controller.signal);
+    controller.abort();
+    await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
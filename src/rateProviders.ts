@@ -0,0 +1,467 @@
+import { Currency, DEFAULT_CURRENCY_ORDER, isCurrencyCode } from './currencies';
+import { getRateEndpoint } from './rateEndpoints';
+import { RateQuotes, decimalToNumber, decimalToString, divideDecimal, parseDecimal, quoteRate } from './money';
+
+// ============================================================================
+// Exchange-rate providers
+// ============================================================================
+// Every provider turns its upstream response into `RateQuotes` exactly as
+// published, in whatever base it natively uses; the chain then derives the
+// home-currency `rates` for display. Providers are tried in priority order:
+// a timeout, network error or malformed payload moves on to the next one.
+
+export interface ExchangeRates {
+  // The currency every rate is quoted against (the user's home currency).
+  base: Currency;
+  // Units of each currency per 1 `base`, for every currency the source quotes.
+  // Floats, for display and charts; amounts are converted with `quotes`.
+  rates: Record<string, number>;
+  // The source's own quotes, in its native base.
+  quotes: RateQuotes;
+  provider: string;
+  // When the upstream source last updated its rates (ms since epoch).
+  sourceUpdatedAt?: number;
+  // When the source expects to publish next, if it tells us (ms since epoch).
+  nextUpdateAt?: number;
+  // When we received this result; 0 for caches written before it was tracked.
+  fetchedAt: number;
+  // Publication date (YYYY-MM-DD) for sources that publish daily reference rates.
+  publishedAt?: string;
+  // True when the source had no fixing today and the last published day is shown.
+  carriedForward?: boolean;
+}
+
+export interface RateProvider {
+  id: string;
+  name: string;
+  // Official fixing (e.g. MNB) rather than a market mid-rate.
+  official?: boolean;
+  timeoutMs?: number;
+  // Shortest gap between automatic refreshes against this source.
+  minIntervalMs?: number;
+  // `base` is a hint; providers may answer in their native base instead.
+  fetchRates: (signal: AbortSignal, base: Currency) => Promise<ProviderRates>;
+}
+
+export type ProviderRates = Omit<ExchangeRates, 'fetchedAt' | 'base' | 'rates'> & {
+  // Set when the service worker answered from its cache: when that copy was fetched.
+  fetchedAt?: number;
+};
+
+export interface ProviderFailure {
+  provider: string;
+  message: string;
+}
+
+export interface FailoverResult {
+  rates: ExchangeRates;
+  failures: ProviderFailure[];
+}
+
+// A source missing any of these is treated as malformed.
+const REQUIRED_CURRENCIES: Currency[] = ['HUF', ...DEFAULT_CURRENCY_ORDER];
+
+const CONFIG = {
+  DEFAULT_TIMEOUT_MS: 8000,
+  DEFAULT_MIN_INTERVAL_MS: 5 * 60 * 1000,
+  OPEN_ER_API_URL: getRateEndpoint(import.meta.env, 'VITE_OPEN_ER_API_URL'),
+  ECB_URL: getRateEndpoint(import.meta.env, 'VITE_ECB_URL'),
+  MNB_URL: getRateEndpoint(import.meta.env, 'VITE_MNB_URL'),
+  MNB_CACHE_KEY: 'mnbLastRates',
+  // Comma-separated provider ids, highest priority first.
+  PROVIDER_ORDER: import.meta.env.VITE_RATE_PROVIDERS as string | undefined,
+};
+
+const optionalNumber = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const unixToMs = (value: unknown) => {
+  const seconds = optionalNumber(value);
+  return seconds === undefined ? undefined : seconds * 1000;
+};
+
+// public/sw.js serves rate requests stale-while-revalidate and stamps the
+// copies it answers from cache with the time they were originally fetched.
+const cachedAt = (response: Response) => {
+  const stamp = Number(response.headers.get('x-sw-fetched-at'));
+  return stamp > 0 ? stamp : undefined;
+};
+
+// Daily fixings only carry a date; pin it to the approximate publication hour.
+const dateAtUtcHour = (date: string | undefined, hour: number) => {
+  if (!date) return undefined;
+  const ts = Date.parse(`${date}T${String(hour).padStart(2, '0')}:00:00Z`);
+  return Number.isFinite(ts) ? ts : undefined;
+};
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+// Validates a `{ EUR: 0.0025, ... }` map of numbers or decimal strings and
+// keeps every well-formed quote.
+const readQuotes = (source: unknown, base: Currency, inverse = false): RateQuotes => {
+  if (!source || typeof source !== 'object') {
+    throw new Error('Hibás árfolyamadat');
+  }
+  const values: RateQuotes['values'] = { [base]: '1' };
+  Object.entries(source as Record<string, unknown>).forEach(([code, value]) => {
+    const quote = typeof value === 'number' || typeof value === 'string' ? parseDecimal(value) : null;
+    if (isCurrencyCode(code) && quote && quote.units > 0n) {
+      values[code] = decimalToString(quote);
+    }
+  });
+  for (const code of REQUIRED_CURRENCIES) {
+    if (!values[code]) {
+      throw new Error(`Hiányzó vagy hibás árfolyam: ${code}`);
+    }
+  }
+  return { base, values, ...(inverse ? { inverse } : {}) };
+};
+
+// Units of each quoted currency per 1 `base`, for display. Each figure is one
+// exact division of published quotes, rounded to a float only at the end.
+const ratesFromQuotes = (quotes: RateQuotes, base: Currency): ExchangeRates['rates'] => {
+  if (!quotes.values[base]) {
+    throw new Error(`A forrás nem jegyzi: ${base}`);
+  }
+  const rates: ExchangeRates['rates'] = {};
+  Object.keys(quotes.values).forEach((code) => {
+    const rate = quoteRate(quotes, base, code);
+    if (rate) rates[code] = decimalToNumber(rate);
+  });
+  return rates;
+};
+
+// Units of `to` per 1 `from`; 0 when either side is missing.
+const crossRate = (rates: ExchangeRates['rates'], from: Currency, to: Currency) => {
+  const fromRate = rates[from];
+  const toRate = rates[to];
+  if (!fromRate || !toRate) return 0;
+  return toRate / fromRate;
+};
+
+const openErApiProvider: RateProvider = {
+  id: 'open-er-api',
+  name: 'open.er-api.com',
+  // Updates daily and rate-limits clients that poll too often.
+  minIntervalMs: 15 * 60 * 1000,
+  fetchRates: async (signal, base) => {
+    const response = await fetch(`${CONFIG.OPEN_ER_API_URL}/${base}`, { signal });
+    if (!response.ok) {
+      throw new Error('Hálózati hiba');
+    }
+    const data = await response.json();
+    if (data?.result && data.result !== 'success') {
+      throw new Error(`Szolgáltatói hiba: ${data['error-type'] ?? data.result}`);
+    }
+    const quotedBase = isCurrencyCode(data?.base_code) ? data.base_code : base;
+    return {
+      quotes: readQuotes(data?.rates, quotedBase),
+      provider: openErApiProvider.id,
+      sourceUpdatedAt: unixToMs(data?.time_last_update_unix),
+      nextUpdateAt: unixToMs(data?.time_next_update_unix),
+      fetchedAt: cachedAt(response),
+    };
+  },
+};
+
+// ECB quotes are "1 EUR = x CCY", so the result is EUR-based.
+const parseEcbXml = (xml: string): Omit<ProviderRates, 'provider'> => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Hibás ECB XML');
+  }
+
+  const cubes = Array.from(doc.getElementsByTagNameNS('*', 'Cube'));
+  const dayCube = cubes.find((cube) => cube.hasAttribute('time'));
+  const eurQuotes: Record<string, string> = {};
+  cubes.forEach((cube) => {
+    const currency = cube.getAttribute('currency');
+    const rate = cube.getAttribute('rate');
+    if (currency && rate) {
+      eurQuotes[currency] = rate;
+    }
+  });
+
+  const publishedAt = dayCube?.getAttribute('time') ?? undefined;
+  return {
+    quotes: readQuotes(eurQuotes, 'EUR'),
+    publishedAt,
+    // Published around 16:00 CET.
+    sourceUpdatedAt: dateAtUtcHour(publishedAt, 15),
+  };
+};
+
+const ecbProvider: RateProvider = {
+  id: 'ecb',
+  name: 'EKB referencia',
+  minIntervalMs: 30 * 60 * 1000,
+  fetchRates: async (signal) => {
+    const response = await fetch(CONFIG.ECB_URL, { signal });
+    if (!response.ok) {
+      throw new Error('Hálózati hiba');
+    }
+    return {
+      ...parseEcbXml(await response.text()),
+      provider: ecbProvider.id,
+      fetchedAt: cachedAt(response),
+    };
+  },
+};
+
+const MNB_SOAP_REQUEST = `<?xml version="1.0" encoding="utf-8"?>
+<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
+  <soap:Body><GetCurrentExchangeRates xmlns="http://www.mnb.hu/webservices/" /></soap:Body>
+</soap:Envelope>`;
+
+interface MnbPublishedRate {
+  // HUF per 1 unit, as a plain decimal string.
+  value: string;
+  date: string;
+}
+
+const todayIsoDate = () => {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+// Entries cached before quotes were kept as strings held the reciprocal
+// as a float; they are dropped and refilled by the next fixing.
+const loadMnbPublished = (): Record<string, MnbPublishedRate> => {
+  try {
+    const raw = localStorage.getItem(CONFIG.MNB_CACHE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (!parsed || typeof parsed !== 'object') return {};
+    return Object.fromEntries(Object.entries(parsed as Record<string, MnbPublishedRate>)
+      .filter(([, rate]) => typeof rate?.value === 'string' && typeof rate.date === 'string'));
+  } catch {
+    return {};
+  }
+};
+
+// MNB publishes "x HUF per `unit` CCY" with a decimal comma, only on banking
+// days. Each currency keeps its most recent fixing, so weekends, holidays and
+// currencies missing from the latest day carry the last published rate forward.
+const parseMnbXml = (xml: string): Omit<ProviderRates, 'provider'> => {
+  const parser = new DOMParser();
+  let doc = parser.parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Hibás MNB XML');
+  }
+
+  // The SOAP service wraps the rate document as an escaped string.
+  const soapResult = doc.getElementsByTagNameNS('*', 'GetCurrentExchangeRatesResult')[0];
+  if (soapResult?.textContent) {
+    doc = parser.parseFromString(soapResult.textContent, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('Hibás MNB XML');
+    }
+  }
+
+  const published = loadMnbPublished();
+  const days = Array.from(doc.getElementsByTagName('Day'))
+    .map((day) => ({ date: day.getAttribute('date') ?? '', element: day }))
+    .filter((day) => day.date)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (days.length === 0) {
+    throw new Error('Nincs közzétett MNB árfolyam');
+  }
+
+  days.forEach(({ date, element }) => {
+    Array.from(element.getElementsByTagName('Rate')).forEach((rate) => {
+      const currency = rate.getAttribute('curr');
+      const unit = parseDecimal(rate.getAttribute('unit') ?? '1');
+      const hufPerUnit = parseDecimal((rate.textContent ?? '').trim().replace(/\s/g, '').replace(',', '.'));
+      if (!currency || !hufPerUnit || hufPerUnit.units <= 0n) return;
+      const previous = published[currency];
+      if (!previous || previous.date <= date) {
+        // Units are powers of ten (1 or 100), so this division is exact.
+        const perUnit = unit && unit.units > 0n ? divideDecimal(hufPerUnit, unit) : hufPerUnit;
+        published[currency] = { value: decimalToString(perUnit), date };
+      }
+    });
+  });
+
+  const hufPrices: Record<string, string> = {};
+  Object.entries(published).forEach(([currency, rate]) => {
+    hufPrices[currency] = rate.value;
+  });
+  const quotes = readQuotes(hufPrices, 'HUF', true);
+
+  try {
+    localStorage.setItem(CONFIG.MNB_CACHE_KEY, JSON.stringify(published));
+  } catch {
+    // Ignore storage errors (e.g., private mode or quota)
+  }
+
+  const publishedAt = days[days.length - 1].date;
+  return {
+    quotes,
+    publishedAt,
+    carriedForward: publishedAt < todayIsoDate(),
+    // Published around 12:00 CET.
+    sourceUpdatedAt: dateAtUtcHour(publishedAt, 11),
+  };
+};
+
+const mnbProvider: RateProvider = {
+  id: 'mnb',
+  name: 'MNB hivatalos',
+  official: true,
+  minIntervalMs: 15 * 60 * 1000,
+  fetchRates: async (signal) => {
+    const response = await fetch(CONFIG.MNB_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'text/xml; charset=utf-8',
+        SOAPAction: 'http://www.mnb.hu/webservices/MNBArfolyamServiceSoap/GetCurrentExchangeRates',
+      },
+      body: MNB_SOAP_REQUEST,
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error('Hálózati hiba');
+    }
+    return {
+      ...parseMnbXml(await response.text()),
+      provider: mnbProvider.id,
+    };
+  },
+};
+
+// All known providers, in default priority order.
+const RATE_PROVIDERS: RateProvider[] = [openErApiProvider, ecbProvider, mnbProvider];
+
+const getRateProvider = (id: string) =>
+  RATE_PROVIDERS.find((provider) => provider.id === id);
+
+const getProviderName = (id: string) => getRateProvider(id)?.name ?? id;
+
+// Resolves the active provider chain, honouring VITE_RATE_PROVIDERS if set.
+// A user-selected provider is moved to the front; the rest stay as fallbacks.
+const getProviderChain = (preferredId?: string): RateProvider[] => {
+  const configured = CONFIG.PROVIDER_ORDER
+    ? CONFIG.PROVIDER_ORDER.split(',')
+      .map((id) => getRateProvider(id.trim()))
+      .filter((provider): provider is RateProvider => Boolean(provider))
+    : [];
+  const chain = configured.length > 0 ? configured : RATE_PROVIDERS;
+  const preferred = preferredId ? getRateProvider(preferredId) : undefined;
+  if (!preferred) return chain;
+  return [preferred, ...chain.filter((provider) => provider !== preferred)];
+};
+
+const getMinRefreshInterval = (providerId: string) =>
+  getRateProvider(providerId)?.minIntervalMs ?? CONFIG.DEFAULT_MIN_INTERVAL_MS;
+
+const createAbortError = () => new DOMException('Megszakítva', 'AbortError');
+
+const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// `signal` cancels the whole request (e.g. when a newer refresh supersedes it);
+// the per-provider timeout only moves the chain on to the next provider.
+const fetchWithTimeout = async (
+  provider: RateProvider,
+  base: Currency,
+  signal?: AbortSignal
+): Promise<ExchangeRates> => {
+  const controller = new AbortController();
+  const timeoutId = window.setTimeout(
+    () => controller.abort(),
+    provider.timeoutMs ?? CONFIG.DEFAULT_TIMEOUT_MS
+  );
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort);
+  try {
+    const result = await provider.fetchRates(controller.signal, base);
+    return {
+      ...result,
+      base,
+      rates: ratesFromQuotes(result.quotes, base),
+      fetchedAt: result.fetchedAt ?? Date.now(),
+    };
+  } catch (error) {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+    if (controller.signal.aborted) {
+      throw new Error('Időtúllépés');
+    }
+    throw error;
+  } finally {
+    window.clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abort);
+  }
+};
+
+// Tries each provider in turn and returns the first valid result.
+const fetchRatesWithFailover = async (
+  providers: RateProvider[] = getProviderChain(),
+  base: Currency = 'HUF',
+  signal?: AbortSignal
+): Promise<FailoverResult> => {
+  const failures: ProviderFailure[] = [];
+  for (const provider of providers) {
+    if (signal?.aborted) throw createAbortError();
+    try {
+      const rates = await fetchWithTimeout(provider, base, signal);
+      return { rates, failures };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const message = getErrorMessage(error);
+      console.warn(`Árfolyam-szolgáltató hiba (${provider.name}):`, message);
+      failures.push({ provider: provider.id, message });
+    }
+  }
+  throw new Error(
+    failures.map((failure) => `${getProviderName(failure.provider)}: ${failure.message}`).join('; ')
+      || 'Nincs elérhető árfolyam-szolgáltató'
+  );
+};
+
+// Reads the last successful result, rebased onto `base`; older caches predate
+// provider, freshness and base tracking (they are all HUF-based) and quotes.
+const loadCachedRates = (base: Currency = 'HUF'): ExchangeRates | null => {
+  try {
+    const raw = localStorage.getItem('cachedRates');
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    const cachedBase = isCurrencyCode(parsed?.base) ? parsed.base : 'HUF';
+    const quotes = isCurrencyCode(parsed?.quotes?.base)
+      ? readQuotes(parsed.quotes.values, parsed.quotes.base, parsed.quotes.inverse === true)
+      : readQuotes(parsed?.rates, cachedBase);
+    return {
+      base,
+      rates: ratesFromQuotes(quotes, base),
+      quotes,
+      provider: typeof parsed?.provider === 'string' ? parsed.provider : openErApiProvider.id,
+      sourceUpdatedAt: optionalNumber(parsed?.sourceUpdatedAt),
+      nextUpdateAt: optionalNumber(parsed?.nextUpdateAt),
+      fetchedAt: optionalNumber(parsed?.fetchedAt) ?? 0,
+      publishedAt: typeof parsed?.publishedAt === 'string' ? parsed.publishedAt : undefined,
+      carriedForward: parsed?.carriedForward === true,
+    };
+  } catch {
+    return null;
+  }
+};
+
+export {
+  RATE_PROVIDERS,
+  openErApiProvider,
+  ecbProvider,
+  mnbProvider,
+  getRateProvider,
+  getProviderName,
+  getProviderChain,
+  getMinRefreshInterval,
+  isAbortError,
+  parseEcbXml,
+  parseMnbXml,
+  ratesFromQuotes,
+  crossRate,
+  fetchRatesWithFailover,
+  loadCachedRates,
+};
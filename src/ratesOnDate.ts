@@ -0,0 +1,92 @@
+import { Currency } from './currencies';
+import { ExchangeRates, ratesFromQuotes } from './rateProviders';
+import { quotesFromRates } from './money';
+import { loadRateHistory } from './rateHistory';
+import { fetchRatesForDate, fromIsoDate } from './historicalRates';
+
+// ============================================================================
+// Rates on a past date
+// ============================================================================
+// Converting "as of" an invoice or trip date uses that day's rates: the last
+// snapshot stored locally on that day, otherwise the ECB fixing from the
+// historical source (the previous working day's for weekends and holidays).
+// Callers that need an official fixing can limit the local snapshots to
+// certain providers.
+
+export interface RatesOnDate {
+  // The day asked for, and the day the rates are actually from.
+  requestedDate: string;
+  rateDate: string;
+  rates: ExchangeRates;
+  source: 'local' | 'remote';
+}
+
+// Past days never change, so their answers are kept for the session.
+const cache = new Map<string, RatesOnDate>();
+
+// YYYY-MM-DD in the user's time zone, as `<input type="date">` uses.
+const toLocalIsoDate = (ts: number) => {
+  const date = new Date(ts);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const remember = (key: string, result: RatesOnDate) => {
+  if (result.requestedDate < toLocalIsoDate(Date.now())) cache.set(key, result);
+  return result;
+};
+
+// `providers` limits the local snapshots to those sources, most preferred
+// first; without it the last snapshot of the day is used, whatever its source.
+const loadRatesOnDate = async (date: string, base: Currency, providers?: string[]): Promise<RatesOnDate> => {
+  const cacheKey = `${date}:${base}:${providers?.join() ?? ''}`;
+  const cached = cache.get(cacheKey);
+  if (cached) return cached;
+
+  try {
+    const history = await loadRateHistory();
+    const sameDay = history.filter((snapshot) => toLocalIsoDate(snapshot.ts) === date && snapshot.rates[base]);
+    const local = providers
+      ? providers.map((provider) => sameDay.filter((snapshot) => snapshot.provider === provider).pop()).find(Boolean)
+      : sameDay.pop();
+    if (local) {
+      const quotes = local.quotes ?? quotesFromRates(local.base, local.rates);
+      const result: RatesOnDate = {
+        requestedDate: date,
+        rateDate: date,
+        rates: {
+          base,
+          rates: ratesFromQuotes(quotes, base),
+          quotes,
+          provider: local.provider,
+          fetchedAt: local.ts,
+          publishedAt: date,
+        },
+        source: 'local',
+      };
+      return remember(cacheKey, result);
+    }
+  } catch (error) {
+    console.warn('Árfolyam-előzmények nem elérhetők:', error);
+  }
+
+  const remote = await fetchRatesForDate(date);
+  const result: RatesOnDate = {
+    requestedDate: date,
+    rateDate: remote.date,
+    rates: {
+      base,
+      rates: ratesFromQuotes(remote.quotes, base),
+      quotes: remote.quotes,
+      // The historical source serves ECB reference rates.
+      provider: 'ecb',
+      fetchedAt: fromIsoDate(remote.date),
+      publishedAt: remote.date,
+      carriedForward: remote.date !== date,
+    },
+    source: 'remote',
+  };
+  return remember(cacheKey, result);
+};
+
+export { toLocalIsoDate, loadRatesOnDate };
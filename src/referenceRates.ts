@@ -0,0 +1,102 @@
+import { Currency } from './currencies';
+import { isWeekend } from './conversionProfiles';
+import { loadRateHistory } from './rateHistory';
+import { fetchRatesForDate, fromIsoDate, toIsoDate } from './historicalRates';
+import { ratesFromQuotes } from './rateProviders';
+
+// ============================================================================
+// Reference rates for daily change
+// ============================================================================
+// The cards compare the live rate with a reference: by default the previous
+// day's close, or a user-chosen point in time. Local history is preferred
+// when it holds a snapshot from that day and the current provider; the
+// historical source fills in otherwise.
+
+export interface ReferenceRates {
+  ts: number;
+  // Any base; compare with `crossRate`.
+  rates: Record<string, number>;
+  source: 'local' | 'remote';
+}
+
+const CONFIG = {
+  STORAGE_KEY: 'referenceTime',
+};
+
+// Remote answers never change for a past date, so keep them for the session.
+const remoteCache = new Map<string, ReferenceRates>();
+
+const startOfDay = (ts: number) => {
+  const date = new Date(ts);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+};
+
+// Midnight starting the last weekday before today.
+const startOfPreviousBusinessDay = (today: number) => {
+  const date = new Date(today);
+  do {
+    date.setDate(date.getDate() - 1);
+  } while (isWeekend(date));
+  return date.getTime();
+};
+
+// A stored reference time, or null for "previous day's close".
+const loadReferenceTime = (): number | null => {
+  const saved = Number(localStorage.getItem(CONFIG.STORAGE_KEY));
+  return Number.isFinite(saved) && saved > 0 ? saved : null;
+};
+
+const saveReferenceTime = (ts: number | null) => {
+  try {
+    if (ts === null) {
+      localStorage.removeItem(CONFIG.STORAGE_KEY);
+    } else {
+      localStorage.setItem(CONFIG.STORAGE_KEY, String(ts));
+    }
+  } catch {
+    // Ignore storage errors (e.g., private mode or quota)
+  }
+};
+
+const loadReferenceRates = async (
+  referenceTime: number | null,
+  base: Currency,
+  provider: string
+): Promise<ReferenceRates | null> => {
+  // "Close" is the last rate seen before midnight, no earlier than the
+  // previous business day; a chosen time takes the last rate of its own day.
+  const today = startOfDay(Date.now());
+  const cutoff = referenceTime ?? today - 1;
+  const since = referenceTime === null ? startOfPreviousBusinessDay(today) : startOfDay(referenceTime);
+
+  try {
+    const history = await loadRateHistory(since);
+    // Another provider's rate would show its spread as a daily move.
+    const local = history
+      .filter((snapshot) => snapshot.ts <= cutoff && snapshot.provider === provider)
+      .pop();
+    if (local) return { ts: local.ts, rates: local.rates, source: 'local' };
+  } catch (error) {
+    console.warn('Árfolyam-előzmények nem elérhetők:', error);
+  }
+
+  const date = toIsoDate(cutoff);
+  const cacheKey = `${date}:${base}`;
+  const cached = remoteCache.get(cacheKey);
+  if (cached) return cached;
+  try {
+    const remote = await fetchRatesForDate(date);
+    const reference: ReferenceRates = {
+      ts: fromIsoDate(remote.date),
+      rates: ratesFromQuotes(remote.quotes, base),
+      source: 'remote',
+    };
+    remoteCache.set(cacheKey, reference);
+    return reference;
+  } catch (error) {
+    console.warn('Referencia-árfolyam nem elérhető:', error);
+    return null;
+  }
+};
+
+export { loadReferenceTime, saveReferenceTime, loadReferenceRates };
@@ -0,0 +1,144 @@
+import { ExchangeRates, getMinRefreshInterval, isAbortError } from './rateProviders';
+
+// ============================================================================
+// Rate refresh scheduler
+// ============================================================================
+// Upstream sources update about daily, so instead of polling on a fixed timer
+// the next refresh is planned from the source's own "next update" hint,
+// never sooner than the provider's minimum interval. Failures back off
+// exponentially. Only one request runs at a time: starting a new one aborts
+// the previous, and hidden tabs wait until they are visible again.
+
+export interface RefreshState {
+  isRefreshing: boolean;
+  // When the next automatic refresh is due (ms since epoch).
+  nextRefreshAt: number | null;
+  consecutiveFailures: number;
+}
+
+export interface RefreshSchedulerOptions {
+  // Performs one refresh and resolves with the rates it received.
+  refresh: (signal: AbortSignal) => Promise<ExchangeRates>;
+  onStateChange?: (state: RefreshState) => void;
+}
+
+export interface RefreshScheduler {
+  // `initialDelay` lets a tab taking over keep the previous leader's schedule.
+  start: (initialDelay?: number) => void;
+  stop: () => void;
+  refreshNow: () => void;
+}
+
+const CONFIG = {
+  // Small delay after the announced update so the source has actually published.
+  UPDATE_GRACE_MS: 60 * 1000,
+  // Re-check at least this often even when the hint is far away.
+  MAX_INTERVAL_MS: 6 * 60 * 60 * 1000,
+  RETRY_BASE_MS: 30 * 1000,
+  RETRY_MAX_MS: 30 * 60 * 1000,
+};
+
+// Delay until the next refresh after a successful one.
+const getSuccessDelay = (rates: ExchangeRates, now = Date.now()) => {
+  const minInterval = getMinRefreshInterval(rates.provider);
+  const untilHint = rates.nextUpdateAt ? rates.nextUpdateAt - now + CONFIG.UPDATE_GRACE_MS : minInterval;
+  return Math.min(Math.max(untilHint, minInterval), CONFIG.MAX_INTERVAL_MS);
+};
+
+// Delay before retrying after `failures` consecutive errors (1, 2, ...).
+const getRetryDelay = (failures: number) =>
+  Math.min(CONFIG.RETRY_BASE_MS * 2 ** Math.max(0, failures - 1), CONFIG.RETRY_MAX_MS);
+
+const createRefreshScheduler = ({ refresh, onStateChange }: RefreshSchedulerOptions): RefreshScheduler => {
+  const state: RefreshState = { isRefreshing: false, nextRefreshAt: null, consecutiveFailures: 0 };
+  let controller: AbortController | null = null;
+  let timeoutId: number | null = null;
+  let isRunning = false;
+
+  const update = (patch: Partial<RefreshState>) => {
+    Object.assign(state, patch);
+    onStateChange?.({ ...state });
+  };
+
+  const clearTimer = () => {
+    if (timeoutId !== null) {
+      window.clearTimeout(timeoutId);
+      timeoutId = null;
+    }
+  };
+
+  const schedule = (delay: number) => {
+    clearTimer();
+    update({ nextRefreshAt: Date.now() + delay });
+    timeoutId = window.setTimeout(() => {
+      timeoutId = null;
+      // A hidden tab catches up as soon as it becomes visible.
+      if (document.visibilityState === 'visible') void run();
+    }, delay);
+  };
+
+  const run = async () => {
+    controller?.abort();
+    const current = new AbortController();
+    controller = current;
+    clearTimer();
+    update({ isRefreshing: true });
+
+    try {
+      const rates = await refresh(current.signal);
+      if (current.signal.aborted) return;
+      update({ isRefreshing: false, consecutiveFailures: 0 });
+      schedule(getSuccessDelay(rates));
+    } catch (error) {
+      if (current.signal.aborted || isAbortError(error)) return;
+      const failures = state.consecutiveFailures + 1;
+      update({ isRefreshing: false, consecutiveFailures: failures });
+      schedule(getRetryDelay(failures));
+    } finally {
+      if (controller === current) controller = null;
+    }
+  };
+
+  const isDue = () => state.nextRefreshAt === null || Date.now() >= state.nextRefreshAt;
+
+  const handleVisible = () => {
+    if (document.visibilityState === 'visible' && !state.isRefreshing && isDue()) {
+      void run();
+    }
+  };
+
+  const handleOnline = () => {
+    if (!state.isRefreshing) void run();
+  };
+
+  const start = (initialDelay = 0) => {
+    if (isRunning) return;
+    isRunning = true;
+    document.addEventListener('visibilitychange', handleVisible);
+    window.addEventListener('focus', handleVisible);
+    window.addEventListener('online', handleOnline);
+    if (initialDelay > 0) {
+      schedule(initialDelay);
+    } else {
+      void run();
+    }
+  };
+
+  const stop = () => {
+    isRunning = false;
+    document.removeEventListener('visibilitychange', handleVisible);
+    window.removeEventListener('focus', handleVisible);
+    window.removeEventListener('online', handleOnline);
+    clearTimer();
+    controller?.abort();
+    controller = null;
+  };
+
+  const refreshNow = () => {
+    if (isRunning) void run();
+  };
+
+  return { start, stop, refreshNow };
+};
+
+export { createRefreshScheduler };
@@ -0,0 +1,23 @@
+// ============================================================================
+// Relative time labels ("5 perce", "2 órája")
+// ============================================================================
+
+const UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['day', 24 * 60 * 60 * 1000],
+  ['hour', 60 * 60 * 1000],
+  ['minute', 60 * 1000],
+];
+
+const relativeFormatter = new Intl.RelativeTimeFormat('hu', { numeric: 'auto' });
+
+const formatRelativeTime = (ts: number, now = Date.now()): string => {
+  const diff = ts - now;
+  for (const [unit, ms] of UNITS) {
+    if (Math.abs(diff) >= ms) {
+      return relativeFormatter.format(Math.round(diff / ms), unit);
+    }
+  }
+  return 'épp most';
+};
+
+export { formatRelativeTime };
@@ -0,0 +1,98 @@
+import { Currency, getCurrencyInfo, getCurrencySymbol } from './currencies';
+import {
+  Decimal,
+  Money,
+  compareDecimal,
+  formatDecimal,
+  parseDecimal,
+  roundToIncrement,
+} from './money';
+
+// ============================================================================
+// Amount rounding
+// ============================================================================
+// Converted amounts can be shown unrounded, rounded to the currency's minor
+// units as on a bank transfer, or to what can actually be paid in cash: there
+// are no coins below 5 Ft or 5 centimes, so cash totals end in 0 or 5.
+
+export type RoundingMode = 'exact' | 'bank' | 'cash';
+
+export interface RoundedAmount {
+  value: Decimal;
+  // Formatted for display, without the currency symbol.
+  text: string;
+  // Whether the shown figure differs from the exact one.
+  isRounded: boolean;
+}
+
+const ROUNDING_MODES: { id: RoundingMode; label: string }[] = [
+  { id: 'exact', label: 'pontos' },
+  { id: 'bank', label: 'banki (váltópénzre)' },
+  { id: 'cash', label: 'készpénzes (pl. 5 Ft)' },
+];
+
+const CONFIG = {
+  STORAGE_KEY: 'roundingMode',
+  DEFAULT_MODE: 'bank' as RoundingMode,
+  // Unrounded figures are cut off here, well past any minor unit.
+  EXACT_DIGITS: 6,
+};
+
+// The step amounts are rounded to, or null when they are not rounded.
+const getRoundingIncrement = (currency: Currency, mode: RoundingMode): Decimal | null => {
+  if (mode === 'exact') return null;
+  const { decimals, cashIncrement } = getCurrencyInfo(currency);
+  const minorUnit: Decimal = { units: 1n, scale: decimals };
+  return mode === 'cash' && cashIncrement ? parseDecimal(cashIncrement) ?? minorUnit : minorUnit;
+};
+
+const roundAmount = ({ amount, currency }: Money, mode: RoundingMode): RoundedAmount => {
+  const { decimals } = getCurrencyInfo(currency);
+  const increment = getRoundingIncrement(currency, mode);
+  if (increment === null) {
+    return {
+      value: amount,
+      text: formatDecimal(amount, decimals, Math.max(decimals, CONFIG.EXACT_DIGITS)),
+      isRounded: false,
+    };
+  }
+
+  const rounded = roundToIncrement(amount, increment);
+  // Whole-unit cash steps (5 Ft, 1 Kč) hide the decimals; 0,05 CHF keeps them.
+  const digits = increment.scale === 0 ? 0 : decimals;
+  return {
+    value: rounded,
+    text: formatDecimal(rounded, digits, digits),
+    isRounded: compareDecimal(rounded, amount) !== 0,
+  };
+};
+
+// E.g. "készpénzre kerekítve (5 Ft)", for tooltips next to a rounded figure.
+const describeRounding = (currency: Currency, mode: RoundingMode): string => {
+  const increment = getRoundingIncrement(currency, mode);
+  if (increment === null) return 'kerekítés nélkül';
+  const step = `${formatDecimal(increment, 0, increment.scale)} ${getCurrencySymbol(currency)}`;
+  return mode === 'cash' ? `készpénzre kerekítve (${step})` : `váltópénzre kerekítve (${step})`;
+};
+
+const isRoundingMode = (value: unknown): value is RoundingMode =>
+  ROUNDING_MODES.some((mode) => mode.id === value);
+
+const loadRoundingMode = (): RoundingMode => {
+  try {
+    const stored = localStorage.getItem(CONFIG.STORAGE_KEY);
+    return isRoundingMode(stored) ? stored : CONFIG.DEFAULT_MODE;
+  } catch {
+    return CONFIG.DEFAULT_MODE;
+  }
+};
+
+const saveRoundingMode = (mode: RoundingMode) => {
+  try {
+    localStorage.setItem(CONFIG.STORAGE_KEY, mode);
+  } catch {
+    // Ignore storage errors (e.g., private mode or quota)
+  }
+};
+
+export { ROUNDING_MODES, roundAmount, describeRounding, loadRoundingMode, saveRoundingMode };
@@ -0,0 +1,179 @@
+import { Currency } from './currencies';
+import { ExchangeRates } from './rateProviders';
+import { RefreshState } from './refreshScheduler';
+import { ConversionEntry } from './conversionHistory';
+import { FiredAlert, RateAlert } from './rateAlerts';
+import { ConversionProfile } from './conversionProfiles';
+import { createId } from './ids';
+
+// ============================================================================
+// Cross-tab coordination
+// ============================================================================
+// Open tabs (and an installed PWA window) elect one leader that fetches rates
+// and shares them with the others. Leadership is a short lease in localStorage
+// that the leader keeps renewing; when it lapses, e.g. because the leader tab
+// closed or was throttled in the background, another tab takes over. Hidden
+// tabs don't refresh, so a visible tab also takes over from a hidden leader.
+// Messages go over a BroadcastChannel, or through `storage` events where
+// BroadcastChannel is unavailable.
+
+export type TabMessage =
+  | { type: 'rates'; rates: ExchangeRates }
+  | { type: 'refreshState'; state: RefreshState }
+  // Asks the leader to refresh now (a follower's "refresh" button).
+  | { type: 'refreshRequest' }
+  // A new follower asks the leader for its current rates and schedule.
+  | { type: 'syncRequest' }
+  | { type: 'theme'; isDarkMode: boolean }
+  | { type: 'currencyOrder'; order: Currency[] }
+  // Stored lists are sent whole after every change, so a tab never saves its
+  // stale copy over another tab's additions.
+  | { type: 'conversionHistory'; entries: ConversionEntry[] }
+  | { type: 'alerts'; alerts: RateAlert[] }
+  // Only the leader checks alerts; followers show the banner it sends.
+  | { type: 'alertsFired'; fired: FiredAlert[] }
+  | { type: 'profiles'; profiles: ConversionProfile[] };
+
+export interface TabSyncOptions {
+  onMessage: (message: TabMessage) => void;
+  onLeaderChange: (isLeader: boolean) => void;
+}
+
+export interface TabSync {
+  start: () => void;
+  stop: () => void;
+  post: (message: TabMessage) => void;
+}
+
+interface Lease {
+  id: string;
+  expiresAt: number;
+  // Whether the leader's page was hidden when it last renewed.
+  hidden?: boolean;
+}
+
+const CONFIG = {
+  CHANNEL_NAME: 'eurhuf',
+  LEASE_KEY: 'tabLeader',
+  MESSAGE_KEY: 'tabMessage',
+  HEARTBEAT_MS: 2000,
+  LEASE_MS: 5000,
+};
+
+const readLease = (): Lease | null => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(CONFIG.LEASE_KEY) ?? 'null');
+    return typeof parsed?.id === 'string' && typeof parsed?.expiresAt === 'number' ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+// Returns false when storage is unusable (e.g., private mode).
+const writeLease = (lease: Lease | null) => {
+  try {
+    if (lease) {
+      localStorage.setItem(CONFIG.LEASE_KEY, JSON.stringify(lease));
+    } else {
+      localStorage.removeItem(CONFIG.LEASE_KEY);
+    }
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const createTabSync = ({ onMessage, onLeaderChange }: TabSyncOptions): TabSync => {
+  const id = createId();
+  let channel: BroadcastChannel | null = null;
+  let heartbeatId: number | null = null;
+  let isLeader = false;
+
+  const setLeader = (next: boolean) => {
+    if (next === isLeader) return;
+    isLeader = next;
+    onLeaderChange(next);
+  };
+
+  // Renews our lease or claims a lapsed one, or a hidden leader's while we are
+  // visible. Two tabs claiming at once both read back the last writer, so the
+  // loser steps down on its next check.
+  const checkLease = () => {
+    const now = Date.now();
+    const lease = readLease();
+    const hidden = document.visibilityState !== 'visible';
+    if (!lease || lease.id === id || lease.expiresAt <= now || (lease.hidden && !hidden)) {
+      // Without storage there is nothing to coordinate on; every tab leads.
+      if (!writeLease({ id, expiresAt: now + CONFIG.LEASE_MS, hidden })) {
+        setLeader(true);
+        return;
+      }
+    }
+    setLeader(readLease()?.id === id);
+  };
+
+  const releaseLease = () => {
+    if (isLeader && readLease()?.id === id) writeLease(null);
+  };
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === CONFIG.LEASE_KEY) {
+      // Released, or renewed by a leader that is now hidden.
+      if (event.newValue === null || document.visibilityState === 'visible') checkLease();
+    } else if (event.key === CONFIG.MESSAGE_KEY && event.newValue) {
+      try {
+        const envelope = JSON.parse(event.newValue);
+        if (envelope?.from !== id && envelope?.message) onMessage(envelope.message);
+      } catch {
+        // Ignore malformed messages
+      }
+    }
+  };
+
+  // Renewing on hide marks our lease as hidden, so a visible tab can take it.
+  const handleVisibility = () => checkLease();
+
+  const post = (message: TabMessage) => {
+    if (channel) {
+      channel.postMessage(message);
+      return;
+    }
+    try {
+      // The nonce makes repeated identical messages still fire `storage`.
+      localStorage.setItem(CONFIG.MESSAGE_KEY, JSON.stringify({ from: id, nonce: createId(), message }));
+      localStorage.removeItem(CONFIG.MESSAGE_KEY);
+    } catch {
+      // Ignore storage errors (e.g., private mode or quota)
+    }
+  };
+
+  const start = () => {
+    if (typeof BroadcastChannel !== 'undefined') {
+      channel = new BroadcastChannel(CONFIG.CHANNEL_NAME);
+      channel.onmessage = (event: MessageEvent<TabMessage>) => onMessage(event.data);
+    }
+    window.addEventListener('storage', handleStorage);
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('pagehide', releaseLease);
+    checkLease();
+    heartbeatId = window.setInterval(checkLease, CONFIG.HEARTBEAT_MS);
+  };
+
+  const stop = () => {
+    if (heartbeatId !== null) {
+      window.clearInterval(heartbeatId);
+      heartbeatId = null;
+    }
+    window.removeEventListener('storage', handleStorage);
+    document.removeEventListener('visibilitychange', handleVisibility);
+    window.removeEventListener('pagehide', releaseLease);
+    releaseLease();
+    channel?.close();
+    channel = null;
+    setLeader(false);
+  };
+
+  return { start, stop, post };
+};
+
+export { createTabSync };
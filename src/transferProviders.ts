@@ -0,0 +1,154 @@
+import { Currency } from './currencies';
+import { isWeekend } from './conversionProfiles';
+import {
+  Decimal,
+  Money,
+  RateQuotes,
+  ZERO,
+  addDecimal,
+  compareDecimal,
+  convertMoney,
+  createMoney,
+  decimalToNumber,
+  divideDecimal,
+  multiplyDecimal,
+  parseDecimal,
+  percentOf,
+  subtractDecimal,
+} from './money';
+
+// ============================================================================
+// Money-transfer provider comparison
+// ============================================================================
+// Provider definitions live as JSON files in src/data/transferProviders/;
+// adding a file adds a provider. Each one describes its fee rules, and the
+// comparison ranks what every provider delivers for the same amount.
+
+export type TransferProviderKind = 'bank' | 'online' | 'cash';
+
+export interface TransferProvider {
+  id: string;
+  name: string;
+  kind: TransferProviderKind;
+  description: string;
+  // Margin built into the provider's exchange rate, in percent.
+  markupPercent: number;
+  // Fee as a percentage of the amount sent, clamped to [minFee, maxFee].
+  percentFee: number;
+  minFee: number;
+  maxFee: number | null;
+  // Flat fee per transfer. Fees and their limits are in `feeCurrency`.
+  fixedFee: number;
+  feeCurrency: Currency;
+  // Extra margin on Saturdays and Sundays.
+  weekendSurchargePercent: number;
+  url?: string;
+  // Affiliate links are marked as such.
+  sponsored?: boolean;
+}
+
+export interface TransferQuote {
+  provider: TransferProvider;
+  // Amount delivered in the target currency.
+  received: Money;
+  // Total fees, in the source currency.
+  fees: Money;
+  // How much less than a mid-market conversion arrives, in percent.
+  distanceFromMidPercent: number;
+}
+
+const KINDS: TransferProviderKind[] = ['bank', 'online', 'cash'];
+
+const readNumber = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+
+// Validates one data file; malformed definitions are skipped with a warning.
+const readTransferProvider = (source: unknown, file: string): TransferProvider | null => {
+  const data = source as Record<string, unknown> | null;
+  if (!data || typeof data.id !== 'string' || typeof data.name !== 'string'
+    || !KINDS.includes(data.kind as TransferProviderKind)) {
+    console.warn('Hibás szolgáltató-definíció:', file);
+    return null;
+  }
+  return {
+    id: data.id,
+    name: data.name,
+    kind: data.kind as TransferProviderKind,
+    description: typeof data.description === 'string' ? data.description : '',
+    markupPercent: readNumber(data.markupPercent),
+    percentFee: readNumber(data.percentFee),
+    minFee: readNumber(data.minFee),
+    maxFee: typeof data.maxFee === 'number' && data.maxFee > 0 ? data.maxFee : null,
+    fixedFee: readNumber(data.fixedFee),
+    feeCurrency: typeof data.feeCurrency === 'string' ? data.feeCurrency : 'HUF',
+    weekendSurchargePercent: readNumber(data.weekendSurchargePercent),
+    url: typeof data.url === 'string' ? data.url : undefined,
+    sponsored: data.sponsored === true,
+  };
+};
+
+const TRANSFER_PROVIDERS: TransferProvider[] = Object.entries(
+  import.meta.glob('./data/transferProviders/*.json', { eager: true, import: 'default' })
+)
+  .map(([file, data]) => readTransferProvider(data, file))
+  .filter((provider): provider is TransferProvider => provider !== null)
+  .sort((a, b) => a.name.localeCompare(b.name, 'hu'));
+
+const toDecimal = (value: number) => parseDecimal(value) ?? ZERO;
+
+const maxDecimal = (a: Decimal, b: Decimal) => (compareDecimal(a, b) >= 0 ? a : b);
+const minDecimal = (a: Decimal, b: Decimal) => (compareDecimal(a, b) <= 0 ? a : b);
+
+// Fees are charged in the source currency; a fee currency the quotes don't
+// cover counts as no fee.
+const quoteTransfer = (
+  provider: TransferProvider,
+  amount: Decimal,
+  from: Currency,
+  to: Currency,
+  quotes: RateQuotes,
+  date = new Date()
+): TransferQuote => {
+  const feeInSource = (fee: number) =>
+    convertMoney(createMoney(fee, provider.feeCurrency), from, quotes)?.amount ?? ZERO;
+  const toTarget = (value: Decimal) => convertMoney(createMoney(value, from), to, quotes)?.amount ?? ZERO;
+
+  let percentFee = percentOf(amount, provider.percentFee);
+  if (provider.percentFee > 0) {
+    percentFee = maxDecimal(percentFee, feeInSource(provider.minFee));
+    if (provider.maxFee !== null) percentFee = minDecimal(percentFee, feeInSource(provider.maxFee));
+  }
+  const fees = addDecimal(percentFee, feeInSource(provider.fixedFee));
+
+  const margin = addDecimal(
+    toDecimal(provider.markupPercent),
+    isWeekend(date) ? toDecimal(provider.weekendSurchargePercent) : ZERO
+  );
+  const converted = toTarget(subtractDecimal(amount, fees));
+  const received = maxDecimal(ZERO, subtractDecimal(converted, percentOf(converted, margin)));
+  const midAmount = toTarget(amount);
+  const shortfall = multiplyDecimal(subtractDecimal(midAmount, received), toDecimal(100));
+  return {
+    provider,
+    received: createMoney(received, to),
+    fees: createMoney(fees, from),
+    distanceFromMidPercent: compareDecimal(midAmount, ZERO) > 0
+      ? decimalToNumber(divideDecimal(shortfall, midAmount))
+      : 0,
+  };
+};
+
+// Best deal first.
+const compareTransferProviders = (
+  amount: Decimal,
+  from: Currency,
+  to: Currency,
+  quotes: RateQuotes,
+  providers: TransferProvider[] = TRANSFER_PROVIDERS,
+  date = new Date()
+): TransferQuote[] =>
+  providers
+    .map((provider) => quoteTransfer(provider, amount, from, to, quotes, date))
+    .sort((a, b) => compareDecimal(b.received.amount, a.received.amount));
+
+export { TRANSFER_PROVIDERS, compareTransferProviders };
@@ -1,9 +1,75 @@
-import { defineConfig } from 'vite';
+import { defineConfig, Plugin, ProxyOptions } from 'vite';
 import react from '@vitejs/plugin-react';
+import { RATE_ENDPOINTS, RATE_PROXIES, RateEndpointKey, getRateEndpoint } from './src/rateEndpoints';
+
+// Small, stable string hash (FNV-1a) used to version the precache by content.
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+// Writes /sw-precache.js for public/sw.js: every built file, the flags and
+// icons the app references, and the rate endpoints to serve
+// stale-while-revalidate. Its content changes with every release, which is
+// what makes browsers install the updated worker.
+const serviceWorkerPrecache = (): Plugin => {
+  let env: Record<string, unknown> = {};
+  return {
+    name: 'eurhuf-sw-precache',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(config) {
+      env = config.env;
+    },
+    generateBundle(_options, bundle) {
+      const files = Object.values(bundle).filter((file) => !file.fileName.endsWith('.map'));
+      const texts = files.map((file) =>
+        file.type === 'chunk' ? file.code : typeof file.source === 'string' ? file.source : file.fileName
+      );
+      const referenced = new Set<string>();
+      texts.forEach((text) => {
+        text.match(/\/(?:flags|icons)\/[\w.-]+\.(?:svg|png)/g)?.forEach((url) => referenced.add(url));
+      });
+      const urls = [
+        '/index.html',
+        '/manifest.json',
+        '/favicon.png',
+        ...files.map((file) => `/${file.fileName}`),
+        ...referenced,
+      ].filter((url, index, all) => all.indexOf(url) === index);
+      const rateEndpoints = (Object.keys(RATE_ENDPOINTS) as RateEndpointKey[])
+        .map((key) => getRateEndpoint(env, key));
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw-precache.js',
+        source: `self.__PRECACHE = ${JSON.stringify({
+          version: hashString(texts.join('\n')),
+          urls,
+          rateEndpoints,
+        })};\n`,
+      });
+    },
+  };
+};
+
+// Forwards the same-origin ECB and MNB paths upstream, like the production host.
+const rateProxy: Record<string, ProxyOptions> = Object.fromEntries(
+  Object.entries(RATE_PROXIES).map(([path, target]) => [
+    path,
+    { target, changeOrigin: true, rewrite: (url: string) => url.slice(path.length) },
+  ])
+);
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorkerPrecache()],
+  server: { proxy: rateProxy },
+  preview: { proxy: rateProxy },
   optimizeDeps: {
     exclude: ['lucide-react'],
   },